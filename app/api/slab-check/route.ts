@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PublicKey } from '@solana/web3.js'
+import { getConnection } from '@/lib/solana'
+import { fetchSlabUsed } from '@/lib/percolator/solana/slab'
+import { checkSlabInvariants } from '@/lib/percolator/invariants'
+
+/**
+ * Slab invariant check against live mainnet data.
+ * Run after a program upgrade to confirm the slab layout still parses correctly.
+ *
+ * GET /api/slab-check?slab=<SLAB>   → invariant report (bigints as strings)
+ *
+ * Responds 200 when every invariant holds and 409 when any is violated,
+ * so it can be polled with `curl -f`.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const slab = searchParams.get('slab')
+
+  if (!slab) {
+    return NextResponse.json({ error: 'Provide ?slab=' }, { status: 400 })
+  }
+
+  let slabPubkey: PublicKey
+  try {
+    slabPubkey = new PublicKey(slab)
+  } catch {
+    return NextResponse.json({ error: `Invalid slab address: ${slab}` }, { status: 400 })
+  }
+
+  try {
+    const data = await fetchSlabUsed(getConnection(), slabPubkey)
+    const report = checkSlabInvariants(data)
+    return NextResponse.json(
+      {
+        slab,
+        ...report,
+        violations: report.violations.map(v => ({
+          ...v,
+          expected: v.expected?.toString(),
+          actual: v.actual?.toString(),
+        })),
+      },
+      { status: report.ok ? 200 : 409 }
+    )
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : String(e) }, { status: 500 })
+  }
+}
@@ -18,7 +18,7 @@ import {
 import { saveToken } from '@/lib/tokenRegistry'
 
 export default function CreateCoinPage() {
-  const { publicKey, signTransaction } = useWallet()
+  const { publicKey, signTransaction, signAllTransactions } = useWallet()
   const { connection } = useConnection()
   const router = useRouter()
   const [loading, setLoading] = useState(false)
@@ -43,6 +43,7 @@ export default function CreateCoinPage() {
   const walletAdapter = publicKey && signTransaction ? {
     publicKey,
     signTransaction,
+    signAllTransactions,
   } : null
 
   const handleImageChange = (file: File | null) => {
@@ -107,6 +108,7 @@ export default function CreateCoinPage() {
           metadataUri: launchResult.metadataUri,
           imageUrl,
           percolatorSlab: launchResult.percolatorSlabAddress,
+          lookupTable: launchResult.percolatorLookupTable,
           creator: walletAdapter.publicKey.toBase58(),
         })
 
@@ -148,6 +150,9 @@ export default function CreateCoinPage() {
                     {result.percolatorMarketCreated && (
                       <p className="mt-1 text-purple-300">Leverage trading enabled</p>
                     )}
+                    {result.percolatorLookupTableError && (
+                      <p className="mt-1 text-red-300">Lookup table not created: {result.percolatorLookupTableError}</p>
+                    )}
                     <p className="mt-2 text-gray-400">Redirecting to trade page...</p>
                   </div>
                 ) : (
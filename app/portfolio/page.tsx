@@ -0,0 +1,19 @@
+'use client'
+
+import { Sidebar } from '@/components/Sidebar'
+import { TopBar } from '@/components/TopBar'
+import { PortfolioContent } from '@/components/PortfolioContent'
+
+export default function PortfolioPage() {
+  return (
+    <div className="min-h-screen bg-[#0f0f0f]">
+      <Sidebar />
+      <div className="ml-[200px]">
+        <TopBar />
+        <main className="px-6 py-6">
+          <PortfolioContent />
+        </main>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+'use client'
+
+import { LAMPORTS_PER_SOL } from '@solana/web3.js'
+import type { OwnedAccount } from '@/lib/solana'
+
+interface AccountPickerProps {
+  accounts: OwnedAccount[]
+  selectedIdx: number | null
+  onSelect: (idx: number) => void
+  onCreate: () => void
+  disabled?: boolean
+}
+
+function describePosition(a: OwnedAccount): string {
+  if (a.positionSize === 0n) return 'Flat'
+  return a.positionSize > 0n ? 'Long' : 'Short'
+}
+
+// Every account the wallet holds on the market. User accounts can be traded
+// from; LP accounts are listed so market makers see both, but trade via
+// their matcher rather than this panel.
+export function AccountPicker({ accounts, selectedIdx, onSelect, onCreate, disabled }: AccountPickerProps) {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-medium text-gray-300">Account</label>
+        <button
+          onClick={onCreate}
+          disabled={disabled}
+          className="text-xs text-purple-400 hover:text-purple-300 disabled:opacity-50 transition"
+        >
+          + New account
+        </button>
+      </div>
+      <div className="space-y-1.5">
+        {accounts.map((a) => {
+          const isLp = a.kind === 'lp'
+          const selected = a.idx === selectedIdx
+          return (
+            <button
+              key={a.idx}
+              onClick={() => onSelect(a.idx)}
+              disabled={disabled || isLp}
+              className={`w-full flex items-center justify-between px-3 py-2 rounded-md text-sm transition ${
+                selected
+                  ? 'bg-purple-600/20 border border-purple-600 text-white'
+                  : 'bg-gray-800 border border-transparent text-gray-400 hover:bg-gray-700'
+              } ${isLp ? 'cursor-default hover:bg-gray-800' : ''}`}
+            >
+              <span className="flex items-center gap-2">
+                <span className="font-mono">#{a.idx}</span>
+                <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${
+                  isLp ? 'bg-gray-700 text-gray-300' : 'bg-purple-900/50 text-purple-300'
+                }`}>
+                  {isLp ? 'LP' : 'USER'}
+                </span>
+                <span className="text-xs">{describePosition(a)}</span>
+              </span>
+              <span className="font-mono text-xs">
+                {(Number(a.capital) / LAMPORTS_PER_SOL).toFixed(4)} SOL
+              </span>
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
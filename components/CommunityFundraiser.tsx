@@ -3,6 +3,7 @@
 import { useState, useEffect, useMemo } from 'react'
 import { useWallet } from '@solana/wallet-adapter-react'
 import { useConnection } from '@solana/wallet-adapter-react'
+import { PublicKey } from '@solana/web3.js'
 import {
   getFundraise,
   createFundraise,
@@ -10,9 +11,11 @@ import {
   markFundraiseEnabled,
   getFundraiseTotalPledged,
   updateTokenSlab,
+  updateTokenLookupTable,
   type Fundraise,
 } from '@/lib/tokenRegistry'
 import { enableFuturesForToken, getSlabRentCost } from '@/lib/pumpfun'
+import { setMarketLookupTable } from '@/lib/solana'
 
 interface CommunityFundraiserProps {
   tokenMint: string
@@ -20,7 +23,7 @@ interface CommunityFundraiserProps {
 }
 
 export function CommunityFundraiser({ tokenMint, onEnabled }: CommunityFundraiserProps) {
-  const { publicKey, signTransaction } = useWallet()
+  const { publicKey, signTransaction, signAllTransactions } = useWallet()
   const { connection } = useConnection()
 
   const [fundraise, setFundraise] = useState<Fundraise | null>(null)
@@ -30,8 +33,9 @@ export function CommunityFundraiser({ tokenMint, onEnabled }: CommunityFundraise
   const [loading, setLoading] = useState(false)
   const [enabling, setEnabling] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [enabledSlab, setEnabledSlab] = useState<string | null>(null)   // Created, but with a failure to show first
 
-  const walletAdapter = publicKey && signTransaction ? { publicKey, signTransaction } : null
+  const walletAdapter = publicKey && signTransaction ? { publicKey, signTransaction, signAllTransactions } : null
 
   // Load fundraise & slab cost
   useEffect(() => {
@@ -94,9 +98,19 @@ export function CommunityFundraiser({ tokenMint, onEnabled }: CommunityFundraise
 
       if (result.success && result.slabAddress) {
         await updateTokenSlab(tokenMint, result.slabAddress)
+        // Persisted here because the lookup table cannot be found on-chain later
+        if (result.lookupTable) {
+          await updateTokenLookupTable(tokenMint, result.lookupTable)
+          setMarketLookupTable(new PublicKey(result.slabAddress), new PublicKey(result.lookupTable))
+        }
         await markFundraiseEnabled(tokenMint, walletAdapter.publicKey.toBase58())
         setFundraise(prev => prev ? { ...prev, enabled: true, enabledBy: walletAdapter.publicKey.toBase58() } : null)
-        onEnabled(result.slabAddress)
+        if (result.lookupTableError) {
+          setError(`Futures enabled, but the lookup table was not created (${result.lookupTableError}). Large trades will take several transactions.`)
+          setEnabledSlab(result.slabAddress)
+        } else {
+          onEnabled(result.slabAddress)
+        }
       } else {
         setError(result.error || 'Failed to enable futures')
       }
@@ -228,6 +242,14 @@ export function CommunityFundraiser({ tokenMint, onEnabled }: CommunityFundraise
           {error}
         </div>
       )}
+      {enabledSlab && (
+        <button
+          onClick={() => onEnabled(enabledSlab)}
+          className="w-full py-3 bg-purple-600 text-white rounded-lg font-bold hover:bg-purple-700 transition"
+        >
+          Continue to Futures
+        </button>
+      )}
 
       {/* Pledge form */}
       {publicKey && !goalReached && (
@@ -288,7 +310,7 @@ export function CommunityFundraiser({ tokenMint, onEnabled }: CommunityFundraise
             disabled={enabling || !publicKey}
             className="w-full py-3 bg-purple-600 text-white rounded-lg font-bold hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition"
           >
-            {enabling ? 'Creating market (7 txs)...' : 'Activate Futures'}
+            {enabling ? 'Creating market...' : 'Activate Futures'}
           </button>
         </div>
       )}
@@ -3,8 +3,10 @@
 import { useState, useEffect } from 'react'
 import { useWallet } from '@solana/wallet-adapter-react'
 import { useConnection } from '@solana/wallet-adapter-react'
+import { PublicKey } from '@solana/web3.js'
 import { enableFuturesForToken, getSlabRentCost } from '@/lib/pumpfun'
-import { updateTokenSlab, getFundraise } from '@/lib/tokenRegistry'
+import { updateTokenSlab, updateTokenLookupTable, getFundraise } from '@/lib/tokenRegistry'
+import { setMarketLookupTable } from '@/lib/solana'
 import { CommunityFundraiser } from './CommunityFundraiser'
 
 interface EnableFuturesProps {
@@ -15,12 +17,13 @@ interface EnableFuturesProps {
 type Mode = 'choose' | 'solo' | 'community'
 
 export function EnableFutures({ tokenMint, onEnabled }: EnableFuturesProps) {
-  const { publicKey, signTransaction } = useWallet()
+  const { publicKey, signTransaction, signAllTransactions } = useWallet()
   const { connection } = useConnection()
   const [mode, setMode] = useState<Mode>('choose')
   const [loading, setLoading] = useState(false)
   const [slabCost, setSlabCost] = useState<number | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [enabledSlab, setEnabledSlab] = useState<string | null>(null)   // Created, but with a failure to show first
 
   useEffect(() => {
     getSlabRentCost(connection).then(cost => setSlabCost(cost)).catch(() => {})
@@ -40,6 +43,7 @@ export function EnableFutures({ tokenMint, onEnabled }: EnableFuturesProps) {
   const walletAdapter = publicKey && signTransaction ? {
     publicKey,
     signTransaction,
+    signAllTransactions,
   } : null
 
   const handleEnable = async () => {
@@ -56,7 +60,17 @@ export function EnableFutures({ tokenMint, onEnabled }: EnableFuturesProps) {
       
       if (result.success && result.slabAddress) {
         await updateTokenSlab(tokenMint, result.slabAddress)
-        onEnabled(result.slabAddress)
+        // Persisted here because the lookup table cannot be found on-chain later
+        if (result.lookupTable) {
+          await updateTokenLookupTable(tokenMint, result.lookupTable)
+          setMarketLookupTable(new PublicKey(result.slabAddress), new PublicKey(result.lookupTable))
+        }
+        if (result.lookupTableError) {
+          setError(`Futures enabled, but the lookup table was not created (${result.lookupTableError}). Large trades will take several transactions.`)
+          setEnabledSlab(result.slabAddress)
+        } else {
+          onEnabled(result.slabAddress)
+        }
       } else {
         setError(result.error || 'Failed to enable futures')
       }
@@ -127,13 +141,22 @@ export function EnableFutures({ tokenMint, onEnabled }: EnableFuturesProps) {
             </div>
           )}
 
-          <button
-            onClick={handleEnable}
-            disabled={loading || !publicKey}
-            className="px-8 py-3 bg-purple-600 text-white rounded-lg font-bold hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition"
-          >
-            {loading ? 'Creating market (7 txs)...' : !publicKey ? 'Connect Wallet' : `Enable Futures (~${slabCost ? slabCost.toFixed(1) : '7'} SOL)`}
-          </button>
+          {enabledSlab ? (
+            <button
+              onClick={() => onEnabled(enabledSlab)}
+              className="px-8 py-3 bg-purple-600 text-white rounded-lg font-bold hover:bg-purple-700 transition"
+            >
+              Continue to Futures
+            </button>
+          ) : (
+            <button
+              onClick={handleEnable}
+              disabled={loading || !publicKey}
+              className="px-8 py-3 bg-purple-600 text-white rounded-lg font-bold hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition"
+            >
+              {loading ? 'Creating market...' : !publicKey ? 'Connect Wallet' : `Enable Futures (~${slabCost ? slabCost.toFixed(1) : '7'} SOL)`}
+            </button>
+          )}
         </div>
       </div>
     )
@@ -11,8 +11,28 @@ import {
   NATIVE_MINT,
   TOKEN_PROGRAM_ID,
 } from '@solana/spl-token'
-import { getPercolatorClient, MAINNET_CONFIG } from '@/lib/solana'
-import type { WalletAdapter } from '@/lib/solana'
+import {
+  getPercolatorClient,
+  subscribeSlab,
+  ownedAccounts,
+  classifyTxError,
+  MAINNET_CONFIG,
+  DEFAULT_FEE_LEVEL,
+  TX_STAGE_LABELS,
+} from '@/lib/solana'
+import type { WalletAdapter, FeeLevel, TxLifecycleEvent, OwnedAccount } from '@/lib/solana'
+import { parseConfig, parseParams, parseEngine } from '@/lib/percolator/solana/slab'
+import type { RiskParams } from '@/lib/percolator/solana/slab'
+import { estimateLiquidationPrice, PRICE_SCALE } from '@/lib/percolator/risk'
+import { getFundingSummary } from '@/lib/percolator/funding'
+import type { FundingSummary } from '@/lib/percolator/funding'
+import { AccountPicker } from '@/components/AccountPicker'
+import { WithdrawDialog } from '@/components/WithdrawDialog'
+
+// Hourly funding in bps as a signed percentage
+function formatFundingPct(bps: number): string {
+  return `${bps >= 0 ? '+' : ''}${(bps / 100).toFixed(4)}%`
+}
 
 interface FuturesPanelProps {
   tokenMint: string
@@ -26,45 +46,114 @@ export function FuturesPanel({ tokenMint, slabAddress, currentPriceInSol }: Futu
   const [side, setSide] = useState<'long' | 'short'>('long')
   const [amount, setAmount] = useState('')    // Collateral in SOL
   const [leverage, setLeverage] = useState(2)
+  const [feeLevel, setFeeLevel] = useState<FeeLevel>(DEFAULT_FEE_LEVEL)
   const [loading, setLoading] = useState(false)
-  const [status, setStatus] = useState<{ type: 'success' | 'error' | 'info'; text: string } | null>(null)
-  const [userIdx, setUserIdx] = useState<number | null>(null)
-  const [hasAccount, setHasAccount] = useState(false)
+  const [status, setStatus] = useState<{ type: 'success' | 'error' | 'info'; text: string; hint?: string } | null>(null)
+  const [accounts, setAccounts] = useState<OwnedAccount[]>([])
+  const [userIdx, setUserIdx] = useState<number | null>(null)   // Selected user account to trade from
   const [checkingAccount, setCheckingAccount] = useState(true)
+  const [withdrawing, setWithdrawing] = useState(false)   // Withdraw dialog open for the selected account
+  const [market, setMarket] = useState<{ params: RiskParams; invert: number; funding: FundingSummary } | null>(null)
+
+  const hasAccount = accounts.some(a => a.kind === 'user')
+  const selectedAccount = accounts.find(a => a.idx === userIdx) ?? null
+  const lpAccounts = accounts.filter(a => a.kind === 'lp')
 
   const walletAdapter: WalletAdapter | null = publicKey && signTransaction ? {
     publicKey,
     signTransaction,
   } : null
 
-  // Check if user has an account in the slab
-  const checkUserAccount = useCallback(async () => {
+  // Show the wallet's accounts. Keeps the selection while it still exists,
+  // otherwise falls back to the first user account.
+  const showAccounts = useCallback((found: OwnedAccount[]) => {
+    const users = found.filter(a => a.kind === 'user')
+    setAccounts(found)
+    setUserIdx(prev => users.some(a => a.idx === prev) ? prev : users[0]?.idx ?? null)
+  }, [])
+
+  // Load every account the wallet holds in the slab
+  const loadAccounts = useCallback(async (): Promise<OwnedAccount[]> => {
     if (!publicKey || !slabAddress) {
-      setCheckingAccount(false)
-      return
+      setAccounts([])
+      setUserIdx(null)
+      return []
     }
-    setCheckingAccount(true)
     try {
       const client = getPercolatorClient(new PublicKey(slabAddress))
-      const found = await client.findUserAccount(publicKey)
-      if (found) {
-        setUserIdx(found.idx)
-        setHasAccount(true)
-      } else {
-        setUserIdx(null)
-        setHasAccount(false)
-      }
+      const found = await client.findAccountsByOwner(publicKey)
+      showAccounts(found)
+      return found
     } catch (e) {
-      console.error('Error checking user account:', e)
-      setHasAccount(false)
-    } finally {
-      setCheckingAccount(false)
+      console.error('Error loading accounts:', e)
+      setAccounts([])
+      setUserIdx(null)
+      return []
     }
-  }, [publicKey, slabAddress])
+  }, [publicKey, slabAddress, showAccounts])
+
+  useEffect(() => {
+    setCheckingAccount(true)
+    loadAccounts().finally(() => setCheckingAccount(false))
+  }, [loadAccounts])
 
+  // Risk parameters for the liquidation preview, and funding rates
   useEffect(() => {
-    checkUserAccount()
-  }, [checkUserAccount])
+    if (!slabAddress) {
+      setMarket(null)
+      return
+    }
+    let cancelled = false
+    getPercolatorClient(new PublicKey(slabAddress)).refreshSlab()
+      .then(data => {
+        if (cancelled) return
+        const config = parseConfig(data)
+        setMarket({
+          params: parseParams(data),
+          invert: config.invert,
+          funding: getFundingSummary(config, parseEngine(data)),
+        })
+      })
+      .catch(e => console.error('Error loading market params:', e))
+    return () => { cancelled = true }
+  }, [slabAddress])
+
+  // Take our accounts from the pushed snapshot when a push touches any of them
+  useEffect(() => {
+    if (!publicKey || !slabAddress) return
+
+    const unsubscribe = subscribeSlab(new PublicKey(slabAddress), ({ snapshot, deltas }) => {
+      const ours = deltas.some(d => d.type !== 'engine' && d.account.owner.equals(publicKey))
+      if (ours) showAccounts(ownedAccounts(snapshot.accounts, publicKey))
+    })
+    return () => { unsubscribe() }
+  }, [showAccounts, publicKey, slabAddress])
+
+  // Send progress in the status banner, prefixed with the step being sent.
+  // Only stages before the result; 'finalized' arrives after it.
+  const trackProgress = (step: string) => (event: TxLifecycleEvent) => {
+    if (event.stage === 'signed' || event.stage === 'sent' || event.stage === 'processed') {
+      setStatus({ type: 'info', text: `${step}: ${TX_STAGE_LABELS[event.stage]}` })
+    }
+  }
+
+  // Liquidation price of the new collateral and notional on their own (not
+  // netted with the account's existing position). Solved at an entry of 1.0
+  // so the result is a ratio, then scaled onto the spot price.
+  const previewLiquidation = (): string => {
+    const amountSol = parseFloat(amount)
+    if (!market || !currentPriceInSol || !amountSol || amountSol <= 0) return '—'
+    const lamports = BigInt(Math.floor(amountSol * LAMPORTS_PER_SOL))
+    const notional = lamports * BigInt(leverage)
+    const { priceE6 } = estimateLiquidationPrice({
+      capital: lamports,
+      pnl: 0n,
+      positionSize: side === 'long' ? notional : -notional,
+      entryPrice: PRICE_SCALE,
+    }, market.params, market.invert)
+    if (priceE6 === null) return 'None'
+    return `${(currentPriceInSol * Number(priceE6) / Number(PRICE_SCALE)).toFixed(10)} SOL`
+  }
 
   // Init user account (0.001 SOL fee)
   const handleInitAccount = async () => {
@@ -73,7 +162,7 @@ export function FuturesPanel({ tokenMint, slabAddress, currentPriceInSol }: Futu
     setStatus({ type: 'info', text: 'Creating Percolator account (0.001 SOL)...' })
 
     try {
-      const client = getPercolatorClient(new PublicKey(slabAddress))
+      const client = getPercolatorClient(new PublicKey(slabAddress), feeLevel)
 
       // Ensure user has wSOL ATA
       const userAta = await getAssociatedTokenAddress(NATIVE_MINT, walletAdapter.publicKey)
@@ -95,28 +184,30 @@ export function FuturesPanel({ tokenMint, slabAddress, currentPriceInSol }: Futu
           }),
           createSyncNativeInstruction(userAta),
         )
-        const bh = await connection.getLatestBlockhash('confirmed')
-        createAtaTx.recentBlockhash = bh.blockhash
-        createAtaTx.feePayer = walletAdapter.publicKey
-        const signed = await walletAdapter.signTransaction(createAtaTx)
-        const sig = await connection.sendRawTransaction(signed.serialize())
-        await connection.confirmTransaction(
-          { signature: sig, blockhash: bh.blockhash, lastValidBlockHeight: bh.lastValidBlockHeight },
-          'confirmed'
-        )
+        const ataResult = await client.sendTransaction(walletAdapter, createAtaTx, {
+          onEvent: trackProgress('Creating wSOL account'),
+        })
+        if (ataResult.error) {
+          setStatus({ type: 'error', text: `wSOL account failed: ${ataResult.error}`, hint: ataResult.hint })
+          return
+        }
       }
 
       // Init user account
       const tx = await client.buildInitUserTx(walletAdapter, 1_000_000n) // 0.001 SOL
-      const result = await client.sendTransaction(walletAdapter, tx)
+      const result = await client.sendTransaction(walletAdapter, tx, { onEvent: trackProgress('Creating account') })
       if (result.error) {
-        setStatus({ type: 'error', text: `Init failed: ${result.error}` })
+        setStatus({ type: 'error', text: `Init failed: ${result.error}`, hint: result.hint })
       } else {
-              setStatus({ type: 'success', text: 'Account created successfully' })
-        await checkUserAccount()
+        setStatus({ type: 'success', text: 'Account created successfully' })
+        // Trade from the new account
+        const found = await loadAccounts()
+        const created = found.find(a => a.kind === 'user' && !accounts.some(p => p.idx === a.idx))
+        if (created) setUserIdx(created.idx)
       }
-    } catch (error: any) {
-      setStatus({ type: 'error', text: error.message || String(error) })
+    } catch (error) {
+      const failure = classifyTxError(error)
+      setStatus({ type: 'error', text: failure.message, hint: failure.hint })
     } finally {
       setLoading(false)
     }
@@ -135,61 +226,15 @@ export function FuturesPanel({ tokenMint, slabAddress, currentPriceInSol }: Futu
     setStatus({ type: 'info', text: `Opening ${side} position... Confirm in wallet.` })
 
     try {
-      const client = getPercolatorClient(new PublicKey(slabAddress))
+      const client = getPercolatorClient(new PublicKey(slabAddress), feeLevel)
       const lamports = BigInt(Math.floor(amountSol * LAMPORTS_PER_SOL))
 
-      // Ensure user has wSOL ATA with enough balance
-      const userAta = await getAssociatedTokenAddress(NATIVE_MINT, walletAdapter.publicKey)
-      const ataInfo = await connection.getAccountInfo(userAta)
-
-      // Wrap SOL to wSOL
-      const wrapTx = new Transaction()
-      if (!ataInfo) {
-        wrapTx.add(
-          createAssociatedTokenAccountInstruction(
-            walletAdapter.publicKey,
-            userAta,
-            walletAdapter.publicKey,
-            NATIVE_MINT,
-          )
-        )
-      }
-      wrapTx.add(
-        SystemProgram.transfer({
-          fromPubkey: walletAdapter.publicKey,
-          toPubkey: userAta,
-          lamports: Number(lamports) + 10_000, // extra for fees
-        }),
-        createSyncNativeInstruction(userAta),
-      )
-      const bh = await connection.getLatestBlockhash('confirmed')
-      wrapTx.recentBlockhash = bh.blockhash
-      wrapTx.feePayer = walletAdapter.publicKey
-      const signedWrap = await walletAdapter.signTransaction(wrapTx)
-      const wrapSig = await connection.sendRawTransaction(signedWrap.serialize())
-      await connection.confirmTransaction(
-        { signature: wrapSig, blockhash: bh.blockhash, lastValidBlockHeight: bh.lastValidBlockHeight },
-        'confirmed'
-      )
-
-      // Step 1: Deposit collateral
-      setStatus({ type: 'info', text: 'Depositing collateral...' })
-      const depositTx = await client.buildDepositTx(walletAdapter, userIdx, lamports)
-      const depositResult = await client.sendTransaction(walletAdapter, depositTx)
-      if (depositResult.error) {
-        setStatus({ type: 'error', text: `Deposit failed: ${depositResult.error}` })
-        return
-      }
-
-      // Step 2: Calculate position size based on leverage
+      // Calculate position size based on leverage
       // size = collateral * leverage * price
       // Positive = long, negative = short
       const positionSize = BigInt(Math.floor(amountSol * leverage * 1_000_000)) // in e6 units
       const signedSize = side === 'long' ? positionSize : -positionSize
 
-      // Step 3: Trade via CPI with matcher
-      setStatus({ type: 'info', text: `Opening ${side} ${leverage}x position...` })
-
       // Get market info to find LP index
       const marketInfo = await client.getMarketInfo()
       const lpAccount = marketInfo.accounts.find(a => a.account.kind === 1) // Find LP
@@ -199,25 +244,53 @@ export function FuturesPanel({ tokenMint, slabAddress, currentPriceInSol }: Futu
         ? lpAccount.account.matcherContext
         : new PublicKey('11111111111111111111111111111111')
 
-      const tradeTx = await client.buildTradeCpiTx(
-        walletAdapter,
+      // Wrap SOL + deposit + trade via CPI, in one transaction when it fits
+      const plan = await client.buildOpenPositionTx(walletAdapter, {
         userIdx,
         lpIdx,
-        signedSize,
-        MAINNET_CONFIG.matcherProgram,
+        collateral: lamports,
+        size: signedSize,
+        matcherProgram: MAINNET_CONFIG.matcherProgram,
         matcherCtx,
+      })
+
+      // Preflight the whole plan before the first wallet prompt
+      const sim = await client.simulateTransaction(
+        walletAdapter,
+        plan.atomic ? plan.transactions[0] : plan.transactions,
+        { postState: false },
       )
-      const tradeResult = await client.sendTransaction(walletAdapter, tradeTx)
-      if (tradeResult.error) {
-        setStatus({ type: 'error', text: `Trade failed: ${tradeResult.error}${tradeResult.hint ? ` — ${tradeResult.hint}` : ''}` })
+      if (sim.failure) {
+        setStatus({ type: 'error', text: `This trade will fail: ${sim.failure.name}`, hint: sim.failure.hint })
         return
       }
 
-      setStatus({ type: 'success', text: `${side.toUpperCase()} ${leverage}x opened. Tx: ${tradeResult.signature.slice(0, 12)}...` })
+      let signature = ''
+      for (const [i, tx] of plan.transactions.entries()) {
+        const isTrade = i === plan.transactions.length - 1
+        const step = plan.atomic || isTrade ? `Opening ${side} ${leverage}x` : 'Depositing collateral'
+        if (!plan.atomic) {
+          setStatus({ type: 'info', text: `${step}... Confirm in wallet.` })
+        }
+        // An atomic plan was just simulated; a split one re-checks each step
+        // against the state the previous one left
+        const result = await client.sendTransaction(walletAdapter, tx, {
+          preflight: !plan.atomic,
+          onEvent: trackProgress(step),
+        })
+        if (result.error) {
+          setStatus({ type: 'error', text: `${isTrade ? 'Trade' : 'Deposit'} failed: ${result.error}`, hint: result.hint })
+          return
+        }
+        signature = result.signature
+      }
+
+      setStatus({ type: 'success', text: `${side.toUpperCase()} ${leverage}x opened. Tx: ${signature.slice(0, 12)}...` })
       setAmount('')
-    } catch (error: any) {
+    } catch (error) {
       console.error('Position error:', error)
-      setStatus({ type: 'error', text: error.message || String(error) })
+      const failure = classifyTxError(error)
+      setStatus({ type: 'error', text: failure.message, hint: failure.hint })
     } finally {
       setLoading(false)
     }
@@ -249,6 +322,7 @@ export function FuturesPanel({ tokenMint, slabAddress, currentPriceInSol }: Futu
             : 'bg-purple-900/30 border border-purple-800/50 text-purple-300'
         }`}>
           {status.text}
+          {status.hint && <p className="text-xs mt-1 opacity-80">{status.hint}</p>}
         </div>
       )}
 
@@ -256,6 +330,12 @@ export function FuturesPanel({ tokenMint, slabAddress, currentPriceInSol }: Futu
       {!hasAccount ? (
         <div className="text-center space-y-3">
           <p className="text-gray-400 text-sm">You need a Percolator account to trade futures</p>
+          {lpAccounts.length > 0 && (
+            <p className="text-gray-500 text-xs">
+              LP account{lpAccounts.length > 1 ? 's' : ''} {lpAccounts.map(a => `#${a.idx}`).join(', ')} trade
+              through the matcher, not this panel
+            </p>
+          )}
           <button
             onClick={handleInitAccount}
             disabled={loading}
@@ -266,6 +346,35 @@ export function FuturesPanel({ tokenMint, slabAddress, currentPriceInSol }: Futu
         </div>
       ) : (
         <>
+          {/* Account to trade from */}
+          <AccountPicker
+            accounts={accounts}
+            selectedIdx={userIdx}
+            onSelect={setUserIdx}
+            onCreate={handleInitAccount}
+            disabled={loading}
+          />
+          {selectedAccount && selectedAccount.capital > 0n && (
+            <div className="flex justify-end -mt-2">
+              <button
+                onClick={() => setWithdrawing(true)}
+                disabled={loading}
+                className="text-xs text-purple-400 hover:text-purple-300 disabled:opacity-50 transition"
+              >
+                Withdraw from #{selectedAccount.idx}
+              </button>
+            </div>
+          )}
+          {withdrawing && selectedAccount && (
+            <WithdrawDialog
+              slabAddress={slabAddress}
+              account={selectedAccount}
+              feeLevel={feeLevel}
+              onClose={() => setWithdrawing(false)}
+              onWithdrawn={loadAccounts}
+            />
+          )}
+
           {/* Side selector */}
           <div className="flex gap-2">
             <button
@@ -349,6 +458,29 @@ export function FuturesPanel({ tokenMint, slabAddress, currentPriceInSol }: Futu
             </div>
           </div>
 
+          {/* Priority fee */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-gray-300">Priority</label>
+              <span className="text-sm font-mono text-white capitalize">{feeLevel}</span>
+            </div>
+            <div className="flex gap-2">
+              {(['economy', 'normal', 'fast'] as const).map((level) => (
+                <button
+                  key={level}
+                  onClick={() => setFeeLevel(level)}
+                  className={`flex-1 py-1.5 text-sm rounded-md transition capitalize ${
+                    feeLevel === level
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                  }`}
+                >
+                  {level}
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Position details */}
           <div className="bg-[#0a0a0a] border border-gray-800 rounded-lg p-4 space-y-2.5 text-sm">
             <div className="flex justify-between">
@@ -369,14 +501,17 @@ export function FuturesPanel({ tokenMint, slabAddress, currentPriceInSol }: Futu
             </div>
             <div className="flex justify-between">
               <span className="text-gray-500">Liquidation price</span>
-              <span className="font-mono text-purple-300/70">
-                {currentPriceInSol && amount
-                  ? side === 'long'
-                    ? `${(currentPriceInSol * (1 - 1/leverage * 0.95)).toFixed(10)} SOL`
-                    : `${(currentPriceInSol * (1 + 1/leverage * 0.95)).toFixed(10)} SOL`
-                  : '—'}
-              </span>
+              <span className="font-mono text-purple-300/70">{previewLiquidation()}</span>
             </div>
+            {market && (
+              <div className="flex justify-between">
+                <span className="text-gray-500">Funding / 1h</span>
+                <span className="font-mono text-gray-400" title="Positive: longs pay shorts">
+                  {formatFundingPct(market.funding.current.bpsPerHour)}
+                  <span className="text-gray-600"> next {formatFundingPct(market.funding.projected.bpsPerHour)}</span>
+                </span>
+              </div>
+            )}
             <div className="flex justify-between pt-2 border-t border-gray-800">
               <span className="text-gray-500">Protocol</span>
               <span className="font-mono text-purple-400">Percolator (meme-liquid)</span>
@@ -16,7 +16,7 @@ import { saveToken } from '@/lib/tokenRegistry'
 import { useRouter } from 'next/navigation'
 
 export function LaunchForm() {
-  const { publicKey, signTransaction } = useWallet()
+  const { publicKey, signTransaction, signAllTransactions } = useWallet()
   const { connection } = useConnection()
   const router = useRouter()
   const [loading, setLoading] = useState(false)
@@ -41,6 +41,7 @@ export function LaunchForm() {
   const walletAdapter = publicKey && signTransaction ? {
     publicKey,
     signTransaction,
+    signAllTransactions,
   } : null
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -103,6 +104,7 @@ export function LaunchForm() {
           metadataUri: launchResult.metadataUri,
           imageUrl,
           percolatorSlab: launchResult.percolatorSlabAddress,
+          lookupTable: launchResult.percolatorLookupTable,
           creator: walletAdapter.publicKey.toBase58(),
         })
 
@@ -139,6 +141,9 @@ export function LaunchForm() {
               {result.percolatorMarketCreated && (
                 <p className="mt-1 text-purple-300">Percolator futures enabled: {result.percolatorSlabAddress?.slice(0, 8)}...</p>
               )}
+              {result.percolatorLookupTableError && (
+                <p className="mt-1 text-red-300">Lookup table not created: {result.percolatorLookupTableError}</p>
+              )}
               {!result.percolatorMarketCreated && (
                 <p className="mt-1 text-purple-300">No futures — can be enabled later from trade page</p>
               )}
@@ -0,0 +1,165 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { useWallet } from '@solana/wallet-adapter-react'
+import { LAMPORTS_PER_SOL } from '@solana/web3.js'
+import { getPortfolio, type Portfolio } from '@/lib/portfolio'
+
+function formatSol(lamports: bigint, digits = 4): string {
+  return `${(Number(lamports) / LAMPORTS_PER_SOL).toFixed(digits)} SOL`
+}
+
+function formatSignedSol(lamports: bigint): string {
+  return `${lamports >= 0n ? '+' : ''}${formatSol(lamports, 6)}`
+}
+
+function StatCard({ label, value, tone }: { label: string; value: string; tone?: 'good' | 'bad' }) {
+  return (
+    <div className="bg-[#161616] border border-[#222] rounded-xl p-4">
+      <p className="text-xs text-gray-500 mb-1">{label}</p>
+      <p className={`text-lg font-mono font-bold ${
+        tone === 'good' ? 'text-purple-400' : tone === 'bad' ? 'text-red-400' : 'text-white'
+      }`}>
+        {value}
+      </p>
+    </div>
+  )
+}
+
+export function PortfolioContent() {
+  const { publicKey } = useWallet()
+  const [portfolio, setPortfolio] = useState<Portfolio | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    if (!publicKey) {
+      setPortfolio(null)
+      return
+    }
+    setLoading(true)
+    setError(null)
+    try {
+      setPortfolio(await getPortfolio(publicKey))
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setLoading(false)
+    }
+  }, [publicKey])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  if (!publicKey) {
+    return (
+      <div className="text-center py-32">
+        <p className="text-gray-500">Connect wallet to view your portfolio</p>
+      </div>
+    )
+  }
+
+  const totals = portfolio?.totals
+  const usagePct = totals ? totals.marginUsageBps / 100 : 0
+
+  return (
+    <div className="max-w-5xl space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-xl font-bold text-white">Portfolio</h1>
+        <button
+          onClick={load}
+          disabled={loading}
+          className="text-xs text-purple-400 hover:text-purple-300 disabled:opacity-50 transition"
+        >
+          {loading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg text-sm bg-red-900/30 border border-red-800 text-red-300">{error}</div>
+      )}
+
+      {totals && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <StatCard label="Capital" value={formatSol(totals.capital)} />
+          <StatCard
+            label="Unrealized PnL"
+            value={formatSignedSol(totals.pnl)}
+            tone={totals.pnl >= 0n ? 'good' : 'bad'}
+          />
+          <StatCard label="Equity" value={formatSol(totals.equity)} />
+          <StatCard label="Notional" value={formatSol(totals.notional)} />
+          <StatCard
+            label="Margin usage"
+            value={`${usagePct.toFixed(1)}%`}
+            tone={usagePct >= 80 ? 'bad' : undefined}
+          />
+        </div>
+      )}
+
+      {portfolio && portfolio.rows.length === 0 && !loading && (
+        <div className="text-center py-16">
+          <p className="text-gray-500">No Percolator accounts yet</p>
+          <p className="text-gray-600 text-xs mt-1">
+            Scanned {portfolio.marketsScanned} market{portfolio.marketsScanned === 1 ? '' : 's'}
+          </p>
+        </div>
+      )}
+
+      {portfolio && portfolio.rows.length > 0 && (
+        <div className="bg-[#161616] border border-[#222] rounded-xl overflow-hidden">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 border-b border-[#222]">
+                <th className="text-left font-medium px-4 py-3">Market</th>
+                <th className="text-left font-medium px-4 py-3">Account</th>
+                <th className="text-left font-medium px-4 py-3">Side</th>
+                <th className="text-right font-medium px-4 py-3">Capital</th>
+                <th className="text-right font-medium px-4 py-3">Notional</th>
+                <th className="text-right font-medium px-4 py-3">PnL</th>
+                <th className="text-right font-medium px-4 py-3">Maint. margin</th>
+              </tr>
+            </thead>
+            <tbody>
+              {portfolio.rows.map((row) => {
+                const side = row.positionSize === 0n ? 'Flat' : row.positionSize > 0n ? 'Long' : 'Short'
+                return (
+                  <tr key={`${row.slab}:${row.accountIdx}`} className="border-b border-[#1a1a1a] last:border-0">
+                    <td className="px-4 py-3">
+                      <Link href={`/trade?token=${row.mint}`} className="text-white hover:text-purple-300 transition">
+                        {row.symbol}
+                      </Link>
+                      <span className="text-gray-600 text-xs ml-2">{row.name}</span>
+                    </td>
+                    <td className="px-4 py-3 font-mono text-gray-400">
+                      #{row.accountIdx}
+                      {row.kind === 'lp' && (
+                        <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] font-bold bg-gray-700 text-gray-300">LP</span>
+                      )}
+                    </td>
+                    <td className={`px-4 py-3 ${side === 'Flat' ? 'text-gray-500' : 'text-purple-300'}`}>{side}</td>
+                    <td className="px-4 py-3 text-right font-mono text-white">{formatSol(row.capital)}</td>
+                    <td className="px-4 py-3 text-right font-mono text-white">{formatSol(row.notional)}</td>
+                    <td className={`px-4 py-3 text-right font-mono ${row.pnl >= 0n ? 'text-purple-400' : 'text-red-400'}`}>
+                      {formatSignedSol(row.pnl)}
+                    </td>
+                    <td className="px-4 py-3 text-right font-mono text-gray-400">{formatSol(row.maintenanceMargin)}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {portfolio && portfolio.errors.length > 0 && (
+        <p className="text-xs text-gray-600">
+          Could not read {portfolio.errors.length} market{portfolio.errors.length === 1 ? '' : 's'}:{' '}
+          {portfolio.errors.map(e => e.slab.slice(0, 8)).join(', ')}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -4,17 +4,99 @@ import { useState, useEffect, useCallback } from 'react'
 import { useWallet } from '@solana/wallet-adapter-react'
 import { useConnection } from '@solana/wallet-adapter-react'
 import { PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js'
-import { getPercolatorClient } from '@/lib/solana'
+import { getPercolatorClient, subscribeSlab, classifyTxError } from '@/lib/solana'
 import type { WalletAdapter } from '@/lib/solana'
+import { AccountKind, parseConfig, parseParams, parseEngine } from '@/lib/percolator/solana/slab'
+import type { Account, RiskParams, MarketConfig, EngineState } from '@/lib/percolator/solana/slab'
+import {
+  computeMargin,
+  engineMarkPrice,
+  leverageFromBps,
+  absBigint,
+  estimateLiquidationPrice,
+  toMarketPriceE6,
+  computeHaircut,
+  haircutBps,
+  realizablePnl,
+} from '@/lib/percolator/risk'
+import type { HaircutRatio } from '@/lib/percolator/risk'
+import { accruedFunding, fundingIndexAt } from '@/lib/percolator/funding'
+import { computeWarmup } from '@/lib/percolator/warmup'
+import type { WarmupSchedule } from '@/lib/percolator/warmup'
+import { WarmupProgress } from '@/components/WarmupProgress'
 
 interface PositionData {
   index: number
+  kind: 'user' | 'lp'
   side: 'long' | 'short'
   capital: number     // SOL
   positionSize: number
   entryPrice: number  // e6
-  pnl: number         // SOL
+  pnl: number         // SOL, including mark-to-market since entry
+  realizablePnl: number  // SOL, pnl after the haircut on profits
+  haircutBps: number  // Share of profits the vault pays now; 10000 = in full
   leverage: number
+  funding: number     // SOL accrued since the last settle; negative = owed
+  liquidationPrice: number | null  // Market terms; null when it can't be reached
+  inBuffer: boolean   // Mark has crossed into the liquidation buffer
+  warmup: WarmupSchedule | null  // Null when no PnL is warming up
+}
+
+// What the risk math needs from the market, refreshed on each full fetch and slab push
+interface MarketRisk {
+  params: RiskParams
+  markPriceE6: bigint
+  invert: number
+  fundingIndexE6: bigint   // Global index as of the engine's current slot
+  haircut: HaircutRatio
+  slot: bigint        // Cluster slot at the fetch or push, for warmup progress
+  observedAt: number  // Date.now() at the fetch or push
+}
+
+function toMarketRisk(config: MarketConfig, params: RiskParams, engine: EngineState, slot: bigint): MarketRisk {
+  const markPriceE6 = engineMarkPrice(config)
+  return {
+    params,
+    markPriceE6,
+    invert: config.invert,
+    fundingIndexE6: fundingIndexAt(engine, markPriceE6),
+    haircut: computeHaircut(engine),
+    slot,
+    observedAt: Date.now(),
+  }
+}
+
+// Derive display data for an account; null when it holds no position
+function toPositionData(idx: number, account: Account, market: MarketRisk): PositionData | null {
+  if (account.positionSize === 0n) return null
+  const markPriceE6 = market.markPriceE6 || account.entryPrice
+  const margin = computeMargin(account, market.params, markPriceE6)
+  const pnl = account.pnl + margin.markPnl
+  const liquidation = estimateLiquidationPrice(account, market.params, market.invert)
+  const markInMarket = toMarketPriceE6(markPriceE6, market.invert)
+  // Longs in market terms lose as the quoted price falls (shorts as it rises)
+  const fallsToLiquidation = (account.positionSize > 0n) === !market.invert
+  const inBuffer = liquidation.bufferPriceE6 !== null && (fallsToLiquidation
+    ? markInMarket <= liquidation.bufferPriceE6
+    : markInMarket >= liquidation.bufferPriceE6)
+  const warmup = computeWarmup(account, market.params, markPriceE6, market.haircut, market.slot, market.observedAt)
+
+  return {
+    index: idx,
+    kind: account.kind === AccountKind.LP ? 'lp' : 'user',
+    side: account.positionSize > 0n ? 'long' : 'short',
+    capital: Number(account.capital) / LAMPORTS_PER_SOL,
+    positionSize: Number(absBigint(account.positionSize)),
+    entryPrice: Number(toMarketPriceE6(account.entryPrice, market.invert)) / 1_000_000,
+    pnl: Number(pnl) / LAMPORTS_PER_SOL,
+    realizablePnl: Number(realizablePnl(pnl, market.haircut)) / LAMPORTS_PER_SOL,
+    haircutBps: haircutBps(market.haircut),
+    leverage: leverageFromBps(margin.leverageBps),
+    funding: Number(accruedFunding(account, market.fundingIndexE6)) / LAMPORTS_PER_SOL,
+    liquidationPrice: liquidation.priceE6 === null ? null : Number(liquidation.priceE6) / 1_000_000,
+    inBuffer,
+    warmup: warmup.warming > 0n ? warmup : null,
+  }
 }
 
 interface PositionListProps {
@@ -25,9 +107,9 @@ interface PositionListProps {
 export function PositionList({ tokenMint, slabAddress }: PositionListProps) {
   const { publicKey, signTransaction } = useWallet()
   const { connection } = useConnection()
-  const [position, setPosition] = useState<PositionData | null>(null)
+  const [positions, setPositions] = useState<PositionData[]>([])
   const [loading, setLoading] = useState(false)
-  const [closing, setClosing] = useState(false)
+  const [closing, setClosing] = useState<number | null>(null)   // Index being closed
   const [refreshing, setRefreshing] = useState(false)
 
   const walletAdapter: WalletAdapter | null = publicKey && signTransaction ? {
@@ -35,55 +117,50 @@ export function PositionList({ tokenMint, slabAddress }: PositionListProps) {
     signTransaction,
   } : null
 
-  const fetchPosition = useCallback(async () => {
+  // Positions across every account the wallet holds (user and LP)
+  const fetchPositions = useCallback(async () => {
     if (!publicKey || !slabAddress) {
-      setPosition(null)
+      setPositions([])
       return
     }
 
     setRefreshing(true)
     try {
       const client = getPercolatorClient(new PublicKey(slabAddress))
-      const found = await client.findUserAccount(publicKey)
-      
-      if (found && found.account.positionSize !== 0n) {
-        const abs = found.account.positionSize < 0n ? -found.account.positionSize : found.account.positionSize
-        const capitalSol = Number(found.account.capital) / LAMPORTS_PER_SOL
-        const pnlSol = Number(found.account.pnl) / LAMPORTS_PER_SOL
-        const notional = found.account.entryPrice > 0n
-          ? Number(abs * found.account.entryPrice / 1_000_000n) / LAMPORTS_PER_SOL
-          : 0
-        const leverage = capitalSol > 0 && notional > 0 ? notional / capitalSol : 0
-
-        setPosition({
-          index: found.idx,
-          side: found.account.positionSize > 0n ? 'long' : 'short',
-          capital: capitalSol,
-          positionSize: Number(abs),
-          entryPrice: Number(found.account.entryPrice) / 1_000_000,
-          pnl: pnlSol,
-          leverage,
-        })
-      } else {
-        setPosition(null)
-      }
+      const data = await client.refreshSlab()
+      const slot = BigInt(await connection.getSlot())
+      const market = toMarketRisk(parseConfig(data), parseParams(data), parseEngine(data), slot)
+      const found = await client.findAccountsByOwner(publicKey)
+      setPositions(found.flatMap(a => toPositionData(a.idx, a.account, market) ?? []))
     } catch (e: any) {
-      console.error('Error fetching position:', e)
-      setPosition(null)
+      console.error('Error fetching positions:', e)
+      setPositions([])
     } finally {
       setRefreshing(false)
     }
-  }, [publicKey, slabAddress])
+  }, [publicKey, slabAddress, connection])
 
+  // Initial load, then react to slab pushes instead of polling
   useEffect(() => {
-    fetchPosition()
-    const interval = setInterval(fetchPosition, 15000)
-    return () => clearInterval(interval)
-  }, [fetchPosition])
-
-  const handleClose = async () => {
-    if (!walletAdapter || !position || !slabAddress) return
-    setClosing(true)
+    fetchPositions()
+    if (!publicKey || !slabAddress) return
+
+    // Mark, funding and haircut move with every crank, so each push
+    // refreshes the market and recomputes all of the wallet's positions
+    const unsubscribe = subscribeSlab(new PublicKey(slabAddress), ({ snapshot }) => {
+      const { config, params, engine, accounts, slot } = snapshot
+      const market = toMarketRisk(config, params, engine, BigInt(slot))
+      const owned = [...accounts].filter(([, account]) => account.owner.equals(publicKey))
+      setPositions(owned
+        .flatMap(([idx, account]) => toPositionData(idx, account, market) ?? [])
+        .sort((a, b) => a.index - b.index))
+    })
+    return () => { unsubscribe() }
+  }, [fetchPositions, publicKey, slabAddress])
+
+  const handleClose = async (position: PositionData) => {
+    if (!walletAdapter || !slabAddress) return
+    setClosing(position.index)
     try {
       const client = getPercolatorClient(new PublicKey(slabAddress))
       const tx = await client.buildCloseAccountTx(walletAdapter, position.index)
@@ -91,13 +168,14 @@ export function PositionList({ tokenMint, slabAddress }: PositionListProps) {
       if (result.error) {
         alert(`Close failed: ${result.error}${result.hint ? ` — ${result.hint}` : ''}`)
       } else {
-        setPosition(null)
+        setPositions(prev => prev.filter(p => p.index !== position.index))
         alert(`Position closed. Tx: ${result.signature.slice(0, 12)}...`)
       }
-    } catch (error: any) {
-      alert(`Error: ${error.message || error.toString()}`)
+    } catch (error) {
+      const failure = classifyTxError(error)
+      alert(`${failure.message} ${failure.hint}`)
     } finally {
-      setClosing(false)
+      setClosing(null)
     }
   }
 
@@ -118,66 +196,103 @@ export function PositionList({ tokenMint, slabAddress }: PositionListProps) {
     )
   }
 
-  if (!position) {
+  if (positions.length === 0) {
     return (
       <div className="text-center py-6">
         <p className="text-gray-500">No open position</p>
         {refreshing && <p className="text-gray-600 text-xs mt-1">Refreshing...</p>}
-        <button onClick={fetchPosition} className="text-xs text-purple-400 hover:text-purple-300 mt-2">
+        <button onClick={fetchPositions} className="text-xs text-purple-400 hover:text-purple-300 mt-2">
           Refresh
         </button>
       </div>
     )
   }
 
-  const isLong = position.side === 'long'
-
   return (
     <div className="space-y-3">
-      <div className="border border-gray-700 rounded-lg p-4 bg-[#0a0a0a]">
-        <div className="flex items-center justify-between mb-3">
-          <div className="flex items-center gap-2">
-            <span className={`text-lg font-bold ${isLong ? 'text-purple-400' : 'text-purple-300'}`}>
-              {isLong ? 'LONG' : 'SHORT'}
-            </span>
-            <span className="text-gray-500 text-sm">{position.leverage.toFixed(1)}x</span>
-          </div>
-          <button
-            onClick={handleClose}
-            disabled={closing}
-            className="px-3 py-1.5 text-sm bg-gray-800 text-gray-300 rounded-md hover:bg-red-900 hover:text-red-300 transition"
-          >
-            {closing ? '...' : 'Close'}
-          </button>
-        </div>
-
-        <div className="space-y-2 text-sm">
-          <div className="flex justify-between">
-            <span className="text-gray-500">Capital</span>
-            <span className="font-mono text-white">{position.capital.toFixed(4)} SOL</span>
-          </div>
-          <div className="flex justify-between">
-            <span className="text-gray-500">Entry Price</span>
-            <span className="font-mono text-white">${position.entryPrice.toFixed(6)}</span>
-          </div>
-          <div className="flex justify-between">
-            <span className="text-gray-500">Position Size</span>
-            <span className="font-mono text-white">{position.positionSize.toLocaleString()}</span>
-          </div>
-          <div className="flex justify-between pt-2 border-t border-gray-800">
-            <span className="text-gray-500">PnL</span>
-            <span className={`font-mono font-bold ${
-              position.pnl >= 0 ? 'text-purple-400' : 'text-red-400'
-            }`}>
-              {position.pnl >= 0 ? '+' : ''}{position.pnl.toFixed(6)} SOL
-            </span>
+      {positions.map((position) => {
+        const isLong = position.side === 'long'
+        return (
+          <div key={position.index} className="border border-gray-700 rounded-lg p-4 bg-[#0a0a0a]">
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center gap-2">
+                <span className={`text-lg font-bold ${isLong ? 'text-purple-400' : 'text-purple-300'}`}>
+                  {isLong ? 'LONG' : 'SHORT'}
+                </span>
+                <span className="text-gray-500 text-sm">{Number.isFinite(position.leverage) ? `${position.leverage.toFixed(1)}x` : '—'}</span>
+                {position.kind === 'lp' && (
+                  <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-gray-700 text-gray-300">LP</span>
+                )}
+              </div>
+              {/* LP positions are the matcher's side of user trades; not closed from here */}
+              {position.kind === 'user' && (
+                <button
+                  onClick={() => handleClose(position)}
+                  disabled={closing !== null}
+                  className="px-3 py-1.5 text-sm bg-gray-800 text-gray-300 rounded-md hover:bg-red-900 hover:text-red-300 transition"
+                >
+                  {closing === position.index ? '...' : 'Close'}
+                </button>
+              )}
+            </div>
+
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-500">Capital</span>
+                <span className="font-mono text-white">{position.capital.toFixed(4)} SOL</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Entry Price</span>
+                <span className="font-mono text-white">${position.entryPrice.toFixed(6)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Liq. Price</span>
+                <span className={`font-mono ${position.inBuffer ? 'text-red-400' : 'text-purple-300/70'}`}>
+                  {position.liquidationPrice === null ? '—' : `$${position.liquidationPrice.toFixed(6)}`}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Position Size</span>
+                <span className="font-mono text-white">{position.positionSize.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Funding</span>
+                <span className={`font-mono ${position.funding >= 0 ? 'text-gray-400' : 'text-red-400'}`}>
+                  {position.funding >= 0 ? '+' : ''}{position.funding.toFixed(6)} SOL
+                </span>
+              </div>
+              <div className="flex justify-between pt-2 border-t border-gray-800">
+                <span className="text-gray-500">PnL</span>
+                <span className={`font-mono font-bold ${
+                  position.pnl >= 0 ? 'text-purple-400' : 'text-red-400'
+                }`}>
+                  {position.pnl >= 0 ? '+' : ''}{position.pnl.toFixed(6)} SOL
+                </span>
+              </div>
+              {/* Profits are paid from what the vault holds beyond capital and insurance */}
+              {position.pnl > 0 && position.haircutBps < 10_000 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-500" title="The vault can currently pay this share of profits">
+                    Realizable ({(position.haircutBps / 100).toFixed(2)}%)
+                  </span>
+                  <span className="font-mono text-purple-300/70">+{position.realizablePnl.toFixed(6)} SOL</span>
+                </div>
+              )}
+            </div>
+
+            {position.warmup && (
+              <div className="mt-3">
+                <WarmupProgress schedule={position.warmup} />
+              </div>
+            )}
+
+            <div className="text-xs text-gray-600 mt-3">Account #{position.index}</div>
           </div>
-        </div>
-      </div>
+        )
+      })}
 
-      <div className="flex justify-between items-center text-xs text-gray-600 px-1">
-        <span>Account #{position.index}</span>
-        <button onClick={fetchPosition} className="hover:text-gray-400 transition">
+      <div className="flex justify-end text-xs text-gray-600 px-1">
+        <button onClick={fetchPositions} className="hover:text-gray-400 transition">
           Refresh
         </button>
       </div>
@@ -84,6 +84,7 @@ const NAV_ITEMS: NavItem[] = [
   { href: '/', label: 'Home', icon: IconHome },
   { href: '/leverage', label: 'Leverage', icon: IconLeverage },
   { href: '/trade', label: 'Terminal', icon: IconTerminal, matchPrefix: true },
+  { href: '/portfolio', label: 'Portfolio', icon: IconProfile },
 ]
 
 // ─── "How it works" modal ────────────────────────────────
@@ -0,0 +1,106 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { PublicKey } from '@solana/web3.js'
+import { getConnection } from '@/lib/solana'
+import { fetchSlabUsed } from '@/lib/percolator/solana/slab'
+import { checkSlabInvariants, type SlabInvariantReport } from '@/lib/percolator/invariants'
+
+interface SlabInvariantsPanelProps {
+  slabAddress: string
+}
+
+/**
+ * Debug panel: checks the live slab against the parser's invariants.
+ * Shown on the trade page with ?debug=1.
+ */
+export function SlabInvariantsPanel({ slabAddress }: SlabInvariantsPanelProps) {
+  const [report, setReport] = useState<SlabInvariantReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [checking, setChecking] = useState(false)
+  const [checkedAt, setCheckedAt] = useState<Date | null>(null)
+
+  const runCheck = useCallback(async () => {
+    setChecking(true)
+    setError(null)
+    try {
+      const data = await fetchSlabUsed(getConnection(), new PublicKey(slabAddress))
+      setReport(checkSlabInvariants(data))
+      setCheckedAt(new Date())
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+      setReport(null)
+    } finally {
+      setChecking(false)
+    }
+  }, [slabAddress])
+
+  useEffect(() => {
+    runCheck()
+  }, [runCheck])
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        {report ? (
+          <span className={`text-xs px-2 py-0.5 rounded-full ${
+            report.ok ? 'bg-purple-900/30 text-purple-300' : 'bg-red-900/30 text-red-400'
+          }`}>
+            {report.ok ? 'Layout OK' : `${report.violations.length} violation${report.violations.length === 1 ? '' : 's'}`}
+          </span>
+        ) : (
+          <span className="text-xs text-gray-500">{checking ? 'Checking...' : 'Not checked'}</span>
+        )}
+        <button
+          onClick={runCheck}
+          disabled={checking}
+          className="text-xs px-2 py-1 bg-gray-800 text-gray-400 rounded hover:bg-gray-700 transition disabled:opacity-50"
+        >
+          {checking ? 'Checking...' : 'Re-check'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-2 rounded-lg text-xs bg-red-900/20 text-red-400">{error}</div>
+      )}
+
+      {report && (
+        <>
+          <div className="space-y-1.5 text-xs">
+            <div className="flex justify-between">
+              <span className="text-gray-500">Layout version</span>
+              <span className="font-mono text-white">{report.layoutVersion ?? '—'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Used accounts</span>
+              <span className="font-mono text-white">{report.usedAccounts}</span>
+            </div>
+            {checkedAt && (
+              <div className="flex justify-between">
+                <span className="text-gray-500">Checked</span>
+                <span className="text-white">{checkedAt.toLocaleTimeString()}</span>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-1 pt-2 border-t border-gray-800">
+            {report.checked.map(invariant => {
+              const violation = report.violations.find(v => v.invariant === invariant)
+              return (
+                <div key={invariant} className="text-xs">
+                  <div className="flex justify-between">
+                    <span className="font-mono text-gray-400">{invariant}</span>
+                    <span className={violation ? 'text-red-400' : 'text-purple-400'}>
+                      {violation ? 'FAIL' : 'OK'}
+                    </span>
+                  </div>
+                  {violation && <p className="text-red-400/80 mt-0.5 break-all">{violation.message}</p>}
+                </div>
+              )
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -8,10 +8,13 @@ import { FuturesPanel } from '@/components/FuturesPanel'
 import { MockFuturesPanel } from '@/components/MockFuturesPanel'
 import { PositionList } from '@/components/PositionList'
 import { EnableFutures } from '@/components/EnableFutures'
+import { SlabInvariantsPanel } from '@/components/SlabInvariantsPanel'
 import { getTokenByMint, type LaunchedToken } from '@/lib/tokenRegistry'
+import { setMarketLookupTable } from '@/lib/solana'
 import { getPumpFunPrice } from '@/lib/pumpfun'
 import { isMockToken, MOCK_SLAB } from '@/lib/mockToken'
 import { useWallet } from '@solana/wallet-adapter-react'
+import { PublicKey } from '@solana/web3.js'
 
 type TradeTab = 'spot' | 'futures'
 
@@ -19,6 +22,7 @@ export function TradeContent() {
   const searchParams = useSearchParams()
   const tokenMint = searchParams.get('token') || ''
   const isMock = isMockToken(tokenMint)
+  const debug = searchParams.get('debug') === '1'
 
   const [tokenInfo, setTokenInfo] = useState<LaunchedToken | null>(null)
   const [priceData, setPriceData] = useState<{ priceInSol: number; marketCap: number; priceUsd: number } | null>(null)
@@ -37,6 +41,9 @@ export function TradeContent() {
         setSlabAddress(MOCK_SLAB)
         setActiveTab('futures')
       } else if (info?.percolatorSlab) {
+        if (info.lookupTable) {
+          setMarketLookupTable(new PublicKey(info.percolatorSlab), new PublicKey(info.lookupTable))
+        }
         setSlabAddress(info.percolatorSlab)
         setActiveTab('futures')
       }
@@ -168,7 +175,7 @@ export function TradeContent() {
             {/* Chart */}
             <div className="bg-[#111] border border-gray-800 rounded-xl p-6">
               <h2 className="text-lg font-semibold mb-4 text-white">Price Chart</h2>
-              <TradingChart tokenMint={tokenMint} />
+              <TradingChart tokenMint={tokenMint} slabAddress={isMock ? null : slabAddress} />
             </div>
 
             {/* Trade tabs */}
@@ -236,6 +243,13 @@ export function TradeContent() {
               )}
             </div>
 
+            {/* Slab invariants (debug) */}
+            {debug && slabAddress && !isMock && (
+              <div className="bg-[#111] border border-gray-800 rounded-xl p-6">
+                <h2 className="text-lg font-semibold mb-4 text-white">Slab Invariants</h2>
+                <SlabInvariantsPanel slabAddress={slabAddress} />
+              </div>
+            )}
 
             {/* Token Info */}
             <div className="bg-[#111] border border-gray-800 rounded-xl p-6">
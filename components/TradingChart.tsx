@@ -1,19 +1,52 @@
 'use client'
 
 import { useEffect, useRef, useState } from 'react'
+import { useWallet } from '@solana/wallet-adapter-react'
+import { PublicKey } from '@solana/web3.js'
+import { getPercolatorClient, subscribeSlab } from '@/lib/solana'
+import { parseConfig, parseParams, parseAllAccounts } from '@/lib/percolator/solana/slab'
+import type { Account, MarketConfig, RiskParams } from '@/lib/percolator/solana/slab'
+import { engineMarkPrice, estimateLiquidationPrice, toMarketPriceE6 } from '@/lib/percolator/risk'
 
 interface TradingChartProps {
   tokenMint: string
+  slabAddress?: string | null   // Draws the wallet's liquidation prices when set
 }
 
-export function TradingChart({ tokenMint }: TradingChartProps) {
+// Liquidation price over the market's mark, drawn as that multiple of spot
+interface LiquidationLine {
+  accountIdx: number
+  ratio: number
+}
+
+function liquidationLines(
+  config: MarketConfig,
+  params: RiskParams,
+  accounts: Iterable<[number, Account]>,
+  owner: PublicKey,
+): LiquidationLine[] {
+  const lines: LiquidationLine[] = []
+  for (const [idx, account] of accounts) {
+    if (!account.owner.equals(owner)) continue
+    const mark = toMarketPriceE6(engineMarkPrice(config) || account.entryPrice, config.invert)
+    const { priceE6 } = estimateLiquidationPrice(account, params, config.invert)
+    if (priceE6 !== null && mark > 0n) lines.push({ accountIdx: idx, ratio: Number(priceE6) / Number(mark) })
+  }
+  return lines
+}
+
+export function TradingChart({ tokenMint, slabAddress }: TradingChartProps) {
+  const { publicKey } = useWallet()
   const chartContainerRef = useRef<HTMLDivElement>(null)
   const chartRef = useRef<any>(null)
   const seriesRef = useRef<any>(null)
   const [chartLibLoaded, setChartLibLoaded] = useState(false)
+  const [lastPrice, setLastPrice] = useState<number | null>(null)
+  const [liquidations, setLiquidations] = useState<LiquidationLine[]>([])
 
   useEffect(() => {
     let mounted = true
+    setLastPrice(null)
     
     async function initChart() {
       if (!chartContainerRef.current) return
@@ -88,6 +121,7 @@ export function TradingChart({ tokenMint }: TradingChartProps) {
                 close: d.close,
               }))
               candleSeries.setData(chartData)
+              setLastPrice(chartData[chartData.length - 1].close)
               dataLoaded = true
             }
           }
@@ -111,6 +145,7 @@ export function TradingChart({ tokenMint }: TradingChartProps) {
                   low: price * 0.999,
                   close: price,
                 }])
+                setLastPrice(price)
               }
             }
           } catch {}
@@ -142,6 +177,7 @@ export function TradingChart({ tokenMint }: TradingChartProps) {
                   low: priceInSol * 0.999,
                   close: priceInSol,
                 })
+                setLastPrice(priceInSol)
               }
             }
           } catch {}
@@ -153,6 +189,7 @@ export function TradingChart({ tokenMint }: TradingChartProps) {
           if (chartRef.current) {
             chartRef.current.remove()
             chartRef.current = null
+            seriesRef.current = null
           }
         }
       } catch (e) {
@@ -168,6 +205,54 @@ export function TradingChart({ tokenMint }: TradingChartProps) {
     }
   }, [tokenMint])
 
+  // Liquidation prices of the wallet's positions: one read, then from each
+  // pushed snapshot
+  useEffect(() => {
+    if (!publicKey || !slabAddress) {
+      setLiquidations([])
+      return
+    }
+    const slab = new PublicKey(slabAddress)
+    let cancelled = false
+    let pushed = false
+
+    getPercolatorClient(slab).refreshSlab()
+      .then(data => {
+        if (cancelled || pushed) return
+        const accounts = parseAllAccounts(data).map(({ idx, account }): [number, Account] => [idx, account])
+        setLiquidations(liquidationLines(parseConfig(data), parseParams(data), accounts, publicKey))
+      })
+      .catch(e => console.warn('Could not load liquidation prices:', e))
+
+    const unsubscribe = subscribeSlab(slab, ({ snapshot }) => {
+      pushed = true
+      setLiquidations(liquidationLines(snapshot.config, snapshot.params, snapshot.accounts, publicKey))
+    })
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [publicKey, slabAddress])
+
+  // Draw them against the latest spot price
+  useEffect(() => {
+    const series = seriesRef.current
+    if (!series || !lastPrice || liquidations.length === 0) return
+    const priceLines = liquidations.map(l => series.createPriceLine({
+      price: lastPrice * l.ratio,
+      color: '#ef4444',
+      lineWidth: 1,
+      lineStyle: 2,
+      axisLabelVisible: true,
+      title: `Liq #${l.accountIdx}`,
+    }))
+    return () => {
+      // Lines went with the chart if it was torn down first
+      if (seriesRef.current !== series) return
+      for (const line of priceLines) series.removePriceLine(line)
+    }
+  }, [liquidations, lastPrice])
+
   return (
     <div className="w-full">
       <div ref={chartContainerRef} className="w-full rounded-xl overflow-hidden" />
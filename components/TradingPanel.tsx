@@ -4,6 +4,8 @@ import { useState, useEffect } from 'react'
 import { useWallet } from '@solana/wallet-adapter-react'
 import { useConnection } from '@solana/wallet-adapter-react'
 import { buyTokenOnPumpFun, sellTokenOnPumpFun, getPumpFunPrice } from '@/lib/pumpfun'
+import { classifyTxError, DEFAULT_FEE_LEVEL, TX_STAGE_LABELS } from '@/lib/solana'
+import type { FeeLevel, TxLifecycleEvent } from '@/lib/solana'
 
 interface TradingPanelProps {
   tokenMint: string
@@ -16,9 +18,10 @@ export function TradingPanel({ tokenMint }: TradingPanelProps) {
   const [side, setSide] = useState<'buy' | 'sell'>('buy')
   const [amount, setAmount] = useState('')
   const [loading, setLoading] = useState(false)
-  const [status, setStatus] = useState<{ type: 'success' | 'error' | 'info'; text: string } | null>(null)
+  const [status, setStatus] = useState<{ type: 'success' | 'error' | 'info'; text: string; hint?: string } | null>(null)
   const [currentPrice, setCurrentPrice] = useState<{ priceInSol: number; priceUsd: number; marketCap: number } | null>(null)
   const [slippage, setSlippage] = useState(10)
+  const [feeLevel, setFeeLevel] = useState<FeeLevel>(DEFAULT_FEE_LEVEL)
 
   // Fetch live price
   useEffect(() => {
@@ -50,6 +53,13 @@ export function TradingPanel({ tokenMint }: TradingPanelProps) {
     setLoading(true)
     setStatus({ type: 'info', text: `${side === 'buy' ? 'Buying' : 'Selling'}... Confirm in your wallet.` })
 
+    // Progress until the result lands; 'finalized' arrives after it and is ignored
+    const onEvent = (event: TxLifecycleEvent) => {
+      if (event.stage === 'signed' || event.stage === 'sent' || event.stage === 'processed') {
+        setStatus({ type: 'info', text: TX_STAGE_LABELS[event.stage] })
+      }
+    }
+
     try {
       const wallet = { publicKey, signTransaction }
       let result
@@ -61,6 +71,8 @@ export function TradingPanel({ tokenMint }: TradingPanelProps) {
           tokenMint,
           parseFloat(amount),
           slippage,
+          feeLevel,
+          onEvent,
         )
       } else {
         // For sell, amount is in token units (percentage of balance)
@@ -75,6 +87,8 @@ export function TradingPanel({ tokenMint }: TradingPanelProps) {
           tokenMint,
           tokenAmount.toString(),
           slippage,
+          feeLevel,
+          onEvent,
         )
       }
 
@@ -85,11 +99,12 @@ export function TradingPanel({ tokenMint }: TradingPanelProps) {
         })
         setAmount('')
       } else {
-        setStatus({ type: 'error', text: result.error || 'Transaction failed' })
+        setStatus({ type: 'error', text: result.error || 'Transaction failed', hint: result.hint })
       }
     } catch (error) {
       console.error('Trade error:', error)
-      setStatus({ type: 'error', text: error instanceof Error ? error.message : String(error) })
+      const failure = classifyTxError(error)
+      setStatus({ type: 'error', text: failure.message, hint: failure.hint })
     } finally {
       setLoading(false)
     }
@@ -119,6 +134,7 @@ export function TradingPanel({ tokenMint }: TradingPanelProps) {
               View ↗
             </a>
           )}
+          {status.hint && <p className="text-xs mt-1 opacity-80">{status.hint}</p>}
         </div>
       )}
 
@@ -209,6 +225,29 @@ export function TradingPanel({ tokenMint }: TradingPanelProps) {
         </div>
       </div>
 
+      {/* Priority fee */}
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className="text-sm font-medium text-gray-300">Priority</label>
+          <span className="text-sm font-mono text-white capitalize">{feeLevel}</span>
+        </div>
+        <div className="flex gap-2">
+          {(['economy', 'normal', 'fast'] as const).map((level) => (
+            <button
+              key={level}
+              onClick={() => setFeeLevel(level)}
+              className={`flex-1 py-1.5 text-sm rounded-md transition capitalize ${
+                feeLevel === level
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+            >
+              {level}
+            </button>
+          ))}
+        </div>
+      </div>
+
       {/* Trade info */}
       <div className="bg-[#0a0a0a] border border-gray-800 rounded-lg p-4 space-y-2.5 text-sm">
         <div className="flex justify-between">
@@ -231,7 +270,7 @@ export function TradingPanel({ tokenMint }: TradingPanelProps) {
         </div>
         <div className="flex justify-between">
           <span className="text-gray-500">Priority Fee</span>
-          <span className="font-mono text-gray-400">0.0005 SOL</span>
+          <span className="font-mono text-gray-400 capitalize">{feeLevel} (from recent fees)</span>
         </div>
         <div className="flex justify-between pt-2 border-t border-gray-800">
           <span className="text-gray-500">Network</span>
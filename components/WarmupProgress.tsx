@@ -0,0 +1,55 @@
+'use client'
+
+import { LAMPORTS_PER_SOL } from '@solana/web3.js'
+import type { WarmupSchedule } from '@/lib/percolator/warmup'
+
+interface WarmupProgressProps {
+  schedule: WarmupSchedule
+  detailed?: boolean   // List when each quarter unlocks
+}
+
+function formatSol(lamports: bigint): string {
+  return `${(Number(lamports) / LAMPORTS_PER_SOL).toFixed(6)} SOL`
+}
+
+// "in 3m 20s (14:05)"; slot times are estimates, so seconds only under a minute
+function formatEta(at: Date): string {
+  const secs = Math.max(0, Math.round((at.getTime() - Date.now()) / 1000))
+  const clock = at.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+  if (secs < 60) return `in ${secs}s (${clock})`
+  const mins = Math.floor(secs / 60)
+  if (mins < 60) return `in ${mins}m ${secs % 60}s (${clock})`
+  return `in ${Math.floor(mins / 60)}h ${mins % 60}m (${clock})`
+}
+
+// Positive PnL unlocking over the warmup period. Withdrawing or trading
+// against the locked part fails with EnginePnlNotWarmedUp.
+export function WarmupProgress({ schedule, detailed }: WarmupProgressProps) {
+  const pct = schedule.progressBps / 100
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex justify-between text-xs">
+        <span className="text-gray-500">PnL warmup</span>
+        <span className="font-mono text-gray-400">{pct.toFixed(1)}%</span>
+      </div>
+      <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+        <div className="h-full bg-purple-500 transition-all" style={{ width: `${pct}%` }} />
+      </div>
+      <div className="flex justify-between text-xs text-gray-600">
+        <span>{formatSol(schedule.unlocked)} unlocked</span>
+        {schedule.locked > 0n && <span>rest {formatEta(schedule.endsAt)}</span>}
+      </div>
+      {detailed && schedule.milestones.length > 0 && (
+        <div className="pt-1 space-y-1 text-xs">
+          {schedule.milestones.map((m) => (
+            <div key={m.slot.toString()} className="flex justify-between">
+              <span className="font-mono text-gray-400">{formatSol(m.unlocked)}</span>
+              <span className="text-gray-600">{formatEta(m.at)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,232 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useWallet } from '@solana/wallet-adapter-react'
+import { useConnection } from '@solana/wallet-adapter-react'
+import { PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js'
+import { getPercolatorClient, classifyTxError, TX_STAGE_LABELS } from '@/lib/solana'
+import type { WalletAdapter, FeeLevel, OwnedAccount } from '@/lib/solana'
+import {
+  parseConfig,
+  parseParams,
+  parseEngine,
+  parseAccount,
+  isAccountUsed,
+  detectSlabLayout,
+} from '@/lib/percolator/solana/slab'
+import {
+  computeMargin,
+  engineMarkPrice,
+  computeHaircut,
+  haircutBps,
+  realizablePnl,
+} from '@/lib/percolator/risk'
+import { computeWarmup } from '@/lib/percolator/warmup'
+import type { WarmupSchedule } from '@/lib/percolator/warmup'
+import { WarmupProgress } from '@/components/WarmupProgress'
+
+interface WithdrawDialogProps {
+  slabAddress: string
+  account: OwnedAccount
+  feeLevel?: FeeLevel
+  onClose: () => void
+  onWithdrawn: () => void
+}
+
+// What the preview shows, in lamports
+interface WithdrawPreview {
+  capital: bigint
+  pnl: bigint                // Including mark-to-market since entry
+  realizablePnl: bigint      // After the haircut on profits
+  haircutBps: number
+  maxWithdrawable: bigint    // Capital plus warmed-up PnL, within initial margin
+  warmup: WarmupSchedule
+}
+
+function formatSol(lamports: bigint, digits = 6): string {
+  return `${(Number(lamports) / LAMPORTS_PER_SOL).toFixed(digits)} SOL`
+}
+
+// Withdraw collateral from one account. Profits join capital under the
+// current haircut as they warm up; only what has can leave.
+export function WithdrawDialog({ slabAddress, account, feeLevel, onClose, onWithdrawn }: WithdrawDialogProps) {
+  const { publicKey, signTransaction } = useWallet()
+  const { connection } = useConnection()
+  const [preview, setPreview] = useState<WithdrawPreview | null>(null)
+  const [amount, setAmount] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [status, setStatus] = useState<{ type: 'success' | 'error' | 'info'; text: string; hint?: string } | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all([getPercolatorClient(new PublicKey(slabAddress)).refreshSlab(), connection.getSlot()])
+      .then(([data, slot]) => {
+        if (cancelled) return
+        // The prop may predate the last crank or trade; read the account
+        // as it is in the data just fetched
+        const layout = detectSlabLayout(data)
+        const a = isAccountUsed(data, account.idx, layout) ? parseAccount(data, account.idx, layout) : null
+        if (!a || a.accountId !== account.account.accountId) {
+          setStatus({ type: 'error', text: `Account #${account.idx} is no longer open` })
+          return
+        }
+        const params = parseParams(data, layout)
+        const markPriceE6 = engineMarkPrice(parseConfig(data, layout)) || a.entryPrice
+        const margin = computeMargin(a, params, markPriceE6)
+        const haircut = computeHaircut(parseEngine(data, layout))
+        const warmup = computeWarmup(a, params, markPriceE6, haircut, BigInt(slot))
+        const pnl = a.pnl + margin.markPnl
+        setPreview({
+          capital: a.capital,
+          pnl,
+          realizablePnl: realizablePnl(pnl, haircut),
+          haircutBps: haircutBps(haircut),
+          maxWithdrawable: warmup.withdrawableNow,
+          warmup,
+        })
+      })
+      .catch(e => setStatus({ type: 'error', text: e instanceof Error ? e.message : String(e) }))
+    return () => { cancelled = true }
+  }, [slabAddress, account, connection])
+
+  const handleWithdraw = async () => {
+    if (!publicKey || !signTransaction || !preview) return
+    const amountSol = parseFloat(amount)
+    if (!amountSol || amountSol <= 0) {
+      setStatus({ type: 'error', text: 'Enter a valid amount' })
+      return
+    }
+    const lamports = BigInt(Math.floor(amountSol * LAMPORTS_PER_SOL))
+    if (lamports > preview.maxWithdrawable) {
+      setStatus({ type: 'error', text: `At most ${formatSol(preview.maxWithdrawable)} can be withdrawn` })
+      return
+    }
+
+    const walletAdapter: WalletAdapter = { publicKey, signTransaction }
+    setLoading(true)
+    setStatus({ type: 'info', text: 'Withdrawing... Confirm in wallet.' })
+    try {
+      const client = getPercolatorClient(new PublicKey(slabAddress), feeLevel)
+      const tx = await client.buildWithdrawTx(walletAdapter, account.idx, lamports)
+      const result = await client.sendTransaction(walletAdapter, tx, {
+        onEvent: (event) => {
+          if (event.stage === 'signed' || event.stage === 'sent' || event.stage === 'processed') {
+            setStatus({ type: 'info', text: `Withdrawing: ${TX_STAGE_LABELS[event.stage]}` })
+          }
+        },
+      })
+      if (result.error) {
+        setStatus({ type: 'error', text: `Withdraw failed: ${result.error}`, hint: result.hint })
+      } else {
+        setStatus({ type: 'success', text: `Withdrew ${amountSol} SOL. Tx: ${result.signature.slice(0, 12)}...` })
+        setAmount('')
+        onWithdrawn()
+      }
+    } catch (error) {
+      const failure = classifyTxError(error)
+      setStatus({ type: 'error', text: failure.message, hint: failure.hint })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-[#111] border border-gray-800 rounded-xl p-6 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white">Withdraw from #{account.idx}</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-300 transition">✕</button>
+        </div>
+
+        {preview ? (
+          <div className="bg-[#0a0a0a] border border-gray-800 rounded-lg p-4 space-y-2.5 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-500">Capital</span>
+              <span className="font-mono text-white">{formatSol(preview.capital)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">PnL</span>
+              <span className={`font-mono ${preview.pnl >= 0n ? 'text-purple-400' : 'text-red-400'}`}>
+                {preview.pnl >= 0n ? '+' : ''}{formatSol(preview.pnl)}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Realizable PnL</span>
+              <span className="font-mono text-purple-300/70">
+                {preview.realizablePnl >= 0n ? '+' : ''}{formatSol(preview.realizablePnl)}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Profit payout</span>
+              <span className={`font-mono ${preview.haircutBps < 10_000 ? 'text-red-400' : 'text-gray-400'}`}>
+                {(preview.haircutBps / 100).toFixed(2)}%
+              </span>
+            </div>
+            <div className="flex justify-between pt-2 border-t border-gray-800">
+              <span className="text-gray-500">Withdrawable now</span>
+              <span className="font-mono text-white">{formatSol(preview.maxWithdrawable)}</span>
+            </div>
+            {preview.warmup.warming > 0n && (
+              <div className="pt-2 border-t border-gray-800">
+                <WarmupProgress schedule={preview.warmup} detailed />
+              </div>
+            )}
+            {preview.pnl > 0n && preview.haircutBps < 10_000 && (
+              <p className="text-xs text-gray-600">
+                Profits are paid from what the vault holds beyond everyone&apos;s capital and the insurance fund.
+                While that falls short of total profits, each winner is paid the same share.
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="text-center text-gray-500 text-sm py-6">Loading...</div>
+        )}
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-sm font-medium text-gray-300">Amount (SOL)</label>
+            {preview && (
+              <button
+                onClick={() => setAmount((Number(preview.maxWithdrawable) / LAMPORTS_PER_SOL).toString())}
+                className="text-xs text-purple-400 hover:text-purple-300 transition"
+              >
+                Max
+              </button>
+            )}
+          </div>
+          <input
+            type="number"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="0.00"
+            step="0.01"
+            min="0"
+            className="w-full px-4 py-3 border border-gray-700 rounded-lg bg-[#0a0a0a] text-white font-mono placeholder-gray-600 focus:border-purple-500 focus:outline-none transition"
+          />
+        </div>
+
+        {status && (
+          <div className={`p-3 rounded-lg text-sm ${
+            status.type === 'error'
+              ? 'bg-red-900/30 border border-red-800 text-red-300'
+              : 'bg-purple-900/30 border border-purple-800/50 text-purple-300'
+          }`}>
+            {status.text}
+            {status.hint && <p className="text-xs mt-1 opacity-80">{status.hint}</p>}
+          </div>
+        )}
+
+        <button
+          onClick={handleWithdraw}
+          disabled={loading || !preview || preview.maxWithdrawable === 0n}
+          className="w-full py-3 rounded-lg font-semibold text-white bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition"
+        >
+          {loading ? 'Processing...' : 'Withdraw'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+import { PublicKey } from "@solana/web3.js";
+
+/**
+ * Decode u8 (1 byte)
+ */
+export function decU8(buf: Buffer, offset: number): number {
+  return buf.readUInt8(offset);
+}
+
+/**
+ * Decode u16 little-endian (2 bytes)
+ */
+export function decU16(buf: Buffer, offset: number): number {
+  return buf.readUInt16LE(offset);
+}
+
+/**
+ * Decode u32 little-endian (4 bytes)
+ */
+export function decU32(buf: Buffer, offset: number): number {
+  return buf.readUInt32LE(offset);
+}
+
+/**
+ * Decode u64 little-endian (8 bytes)
+ */
+export function decU64(buf: Buffer, offset: number): bigint {
+  return buf.readBigUInt64LE(offset);
+}
+
+/**
+ * Decode i64 little-endian (8 bytes), two's complement
+ */
+export function decI64(buf: Buffer, offset: number): bigint {
+  return buf.readBigInt64LE(offset);
+}
+
+/**
+ * Decode u128 little-endian (16 bytes)
+ */
+export function decU128(buf: Buffer, offset: number): bigint {
+  const lo = buf.readBigUInt64LE(offset);
+  const hi = buf.readBigUInt64LE(offset + 8);
+  return (hi << 64n) | lo;
+}
+
+/**
+ * Decode i128 little-endian (16 bytes), two's complement
+ */
+export function decI128(buf: Buffer, offset: number): bigint {
+  const unsigned = decU128(buf, offset);
+  // If high bit is set, convert to negative (two's complement)
+  if (unsigned >= 1n << 127n) {
+    return unsigned - (1n << 128n);
+  }
+  return unsigned;
+}
+
+/**
+ * Decode a PublicKey (32 bytes)
+ */
+export function decPubkey(buf: Buffer, offset: number): PublicKey {
+  return new PublicKey(buf.subarray(offset, offset + 32));
+}
+
+/**
+ * Decode a boolean from u8 (0 = false, anything else = true)
+ */
+export function decBool(buf: Buffer, offset: number): boolean {
+  return decU8(buf, offset) !== 0;
+}
@@ -0,0 +1,189 @@
+import { describe, it, expect } from "vitest";
+import { PublicKey } from "@solana/web3.js";
+import { classifyTxError, type TxErrorInfo } from "./errors";
+
+const PERCOLATOR = "DP2EbA2v6rmkmNieZpnjumXosuXQ93r9jyb9eSzzkf1x";
+const MATCHER = new PublicKey(Buffer.alloc(32, 9)).toBase58();
+const TOKEN = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+const SYSTEM = "11111111111111111111111111111111";
+const COMPUTE_BUDGET = "ComputeBudget111111111111111111111111111111";
+
+const SIMULATION_FAILED = new Error("Simulation failed. Message: Transaction simulation failed: Error processing Instruction 2");
+
+function walletError(name: string, message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+interface Case {
+  title: string;
+  error: unknown;
+  logs?: string[];
+  expected: Partial<TxErrorInfo>;
+}
+
+const CASES: Case[] = [
+  {
+    title: "compute budget exhausted mid-trade",
+    error: SIMULATION_FAILED,
+    logs: [
+      `Program ${COMPUTE_BUDGET} invoke [1]`,
+      `Program ${COMPUTE_BUDGET} success`,
+      `Program ${PERCOLATOR} invoke [1]`,
+      "Program log: Instruction: TradeCpi",
+      `Program ${PERCOLATOR} consumed 200000 of 200000 compute units`,
+      `Program ${PERCOLATOR} failed: exceeded CUs meter at BPF instruction #18733`,
+    ],
+    expected: { category: "computeBudget", action: "raiseComputeLimit" },
+  },
+  {
+    title: "rent for a new account",
+    error: SIMULATION_FAILED,
+    logs: [
+      `Program ${PERCOLATOR} invoke [1]`,
+      `Program ${SYSTEM} invoke [2]`,
+      "Transfer: insufficient lamports 890880, need 2039280",
+      `Program ${SYSTEM} failed: custom program error: 0x1`,
+      `Program ${PERCOLATOR} consumed 6120 of 200000 compute units`,
+      `Program ${PERCOLATOR} failed: custom program error: 0x1`,
+    ],
+    expected: { category: "rent", action: "addSol" },
+  },
+  {
+    title: "fee payer with no SOL",
+    error: new Error("Simulation failed. Message: Transaction simulation failed: Attempt to debit an account but found no record of a prior credit."),
+    expected: { category: "rent", action: "addSol" },
+  },
+  {
+    title: "empty wSOL account",
+    error: SIMULATION_FAILED,
+    logs: [
+      `Program ${PERCOLATOR} invoke [1]`,
+      "Program log: Instruction: DepositCollateral",
+      `Program ${TOKEN} invoke [2]`,
+      "Program log: Instruction: Transfer",
+      "Program log: Error: insufficient funds",
+      `Program ${TOKEN} consumed 4381 of 193873 compute units`,
+      `Program ${TOKEN} failed: custom program error: 0x1`,
+      `Program ${PERCOLATOR} consumed 10508 of 200000 compute units`,
+      `Program ${PERCOLATOR} failed: custom program error: 0x1`,
+    ],
+    expected: { category: "splToken", name: "InsufficientFunds", code: 1, action: "wrapSol", programId: TOKEN },
+  },
+  {
+    title: "token account owned by someone else",
+    error: SIMULATION_FAILED,
+    logs: [
+      `Program ${PERCOLATOR} invoke [1]`,
+      `Program ${TOKEN} invoke [2]`,
+      "Program log: Instruction: Transfer",
+      "Program log: Error: owner does not match",
+      `Program ${TOKEN} failed: custom program error: 0x4`,
+      `Program ${PERCOLATOR} failed: custom program error: 0x4`,
+    ],
+    expected: { category: "splToken", name: "OwnerMismatch", code: 4, action: "none" },
+  },
+  {
+    title: "blockhash expired while confirming",
+    error: walletError(
+      "TransactionExpiredBlockheightExceededError",
+      "Signature 4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi has expired: block height exceeded.",
+    ),
+    expected: { category: "blockhashExpired", action: "retry" },
+  },
+  {
+    title: "blockhash unknown at simulation",
+    error: new Error("failed to send transaction: Transaction simulation failed: Blockhash not found"),
+    expected: { category: "blockhashExpired", action: "retry" },
+  },
+  {
+    title: "wallet prompt declined",
+    error: walletError("WalletSignTransactionError", "User rejected the request."),
+    expected: { category: "userRejected", action: "none" },
+  },
+  {
+    title: "matcher rejecting the trade",
+    error: SIMULATION_FAILED,
+    logs: [
+      `Program ${PERCOLATOR} invoke [1]`,
+      "Program log: Instruction: TradeCpi",
+      `Program ${MATCHER} invoke [2]`,
+      "Program log: quote exceeds available liquidity",
+      `Program ${MATCHER} consumed 9120 of 180000 compute units`,
+      `Program ${MATCHER} failed: custom program error: 0x3`,
+      `Program ${PERCOLATOR} consumed 28412 of 200000 compute units`,
+      `Program ${PERCOLATOR} failed: custom program error: 0x3`,
+    ],
+    expected: { category: "matcherCpi", action: "adjustTrade", code: 3, programId: MATCHER },
+  },
+  {
+    title: "matcher context not matching the LP",
+    error: SIMULATION_FAILED,
+    logs: [
+      `Program ${PERCOLATOR} invoke [1]`,
+      "Program log: Instruction: TradeCpi",
+      `Program ${PERCOLATOR} failed: custom program error: 0x10`,
+    ],
+    expected: { category: "matcherCpi", name: "EngineInvalidMatchingEngine", code: 16, programId: PERCOLATOR },
+  },
+  {
+    title: "Percolator custom program error",
+    error: SIMULATION_FAILED,
+    logs: [
+      `Program ${PERCOLATOR} invoke [1]`,
+      "Program log: Instruction: TradeCpi",
+      `Program ${PERCOLATOR} consumed 21307 of 200000 compute units`,
+      `Program ${PERCOLATOR} failed: custom program error: 0xe`,
+    ],
+    expected: {
+      category: "program",
+      name: "EngineUndercollateralized",
+      message: "EngineUndercollateralized (0xe)",
+      code: 14,
+      action: "adjustTrade",
+      programId: PERCOLATOR,
+    },
+  },
+  {
+    title: "bare confirmation error with a custom code",
+    error: { InstructionError: [2, { Custom: 17 }] },
+    expected: { category: "program", name: "EnginePnlNotWarmedUp", code: 17, action: "none" },
+  },
+  {
+    title: "unregistered custom program error",
+    error: SIMULATION_FAILED,
+    logs: [
+      `Program ${PERCOLATOR} invoke [1]`,
+      `Program ${PERCOLATOR} failed: custom program error: 0x63`,
+    ],
+    expected: { category: "program", name: "Unknown(99)", message: "Program error (0x63)", code: 99 },
+  },
+];
+
+describe("classifyTxError", () => {
+  it.each(CASES)("classifies $title", ({ error, logs, expected }) => {
+    expect(classifyTxError(error, logs)).toMatchObject(expected);
+  });
+
+  it("reads logs carried on a SendTransactionError", () => {
+    const error = Object.assign(new Error("Simulation failed."), {
+      logs: [`Program ${PERCOLATOR} invoke [1]`, `Program ${PERCOLATOR} failed: custom program error: 0xd`],
+    });
+    expect(classifyTxError(error)).toMatchObject({ category: "program", name: "EngineInsufficientBalance", code: 13 });
+  });
+
+  it("falls back to the failure reason when nothing matches", () => {
+    const info = classifyTxError(SIMULATION_FAILED, [
+      `Program ${PERCOLATOR} invoke [1]`,
+      `Program ${PERCOLATOR} failed: invalid account data for instruction`,
+    ]);
+    expect(info).toMatchObject({
+      category: "unknown",
+      message: "invalid account data for instruction",
+      action: "retry",
+      programId: PERCOLATOR,
+    });
+    expect(info.raw).toContain("Simulation failed");
+  });
+});
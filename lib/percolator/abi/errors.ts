@@ -78,7 +78,7 @@ export const PERCOLATOR_ERRORS: Record<number, ErrorInfo> = {
   },
   17: {
     name: "EnginePnlNotWarmedUp",
-    hint: "PnL not warmed up yet. Wait for the warmup period to complete before trading.",
+    hint: "PnL not warmed up yet. Profits unlock gradually over the warmup period; the position's warmup progress shows when.",
   },
   18: {
     name: "EngineOverflow",
@@ -158,3 +158,198 @@ export function parseErrorFromLogs(logs: string[]): {
   }
   return null;
 }
+
+// ============================================================================
+// TRANSACTION ERROR TAXONOMY
+// ============================================================================
+
+/**
+ * Broad failure categories. Custom program error codes are only meaningful
+ * for the program that raised them, so the failing program is resolved from
+ * the invoke stack in the logs before a code is interpreted.
+ */
+export type TxErrorCategory =
+  | "program"            // Percolator custom error (PERCOLATOR_ERRORS)
+  | "computeBudget"      // Ran out of compute units
+  | "rent"               // Not enough SOL for fees or rent exemption
+  | "splToken"           // SPL Token program error (e.g. empty wSOL ATA)
+  | "blockhashExpired"   // Blockhash expired before the tx landed
+  | "userRejected"       // Wallet signature request declined
+  | "matcherCpi"         // Failure inside the LP's matcher program
+  | "unknown";
+
+export type RecoveryAction =
+  | "retry"              // Same transaction, fresh blockhash
+  | "raiseComputeLimit"  // Retry with a higher compute unit limit
+  | "addSol"             // Fund the wallet with more SOL
+  | "wrapSol"            // Wrap more SOL into the wSOL ATA
+  | "adjustTrade"        // Change size, collateral or leverage
+  | "none";              // Nothing to do (e.g. user cancelled)
+
+export interface TxErrorInfo {
+  category: TxErrorCategory;
+  name: string;
+  message: string;       // User-facing description
+  hint: string;          // Suggested recovery, phrased for the user
+  action: RecoveryAction;
+  code?: number;         // Custom program error code, when one was raised
+  programId?: string;    // Program that failed, when known from the logs
+  raw: string;           // Original error text for logging
+}
+
+const TOKEN_PROGRAM = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+const SYSTEM_PROGRAM = "11111111111111111111111111111111";
+
+/**
+ * SPL Token program error codes (token/program/src/error.rs).
+ */
+const SPL_TOKEN_ERRORS: Record<number, string> = {
+  0: "NotRentExempt",
+  1: "InsufficientFunds",
+  2: "InvalidMint",
+  3: "MintMismatch",
+  4: "OwnerMismatch",
+  5: "FixedSupply",
+  6: "AlreadyInUse",
+  7: "InvalidNumberOfProvidedSigners",
+  8: "InvalidNumberOfRequiredSigners",
+  9: "UninitializedState",
+  10: "NativeNotSupported",
+  11: "NonNativeHasBalance",
+  12: "InvalidInstruction",
+  13: "InvalidState",
+  14: "Overflow",
+  15: "AuthorityTypeNotSupported",
+  16: "MintCannotFreeze",
+  17: "AccountFrozen",
+  18: "MintDecimalsMismatch",
+  19: "NonNativeNotSupported",
+};
+
+interface FailedInvocation {
+  programId: string;
+  depth: number;
+  reason: string;
+}
+
+/**
+ * Find the innermost failing program from transaction logs by tracking the
+ * "invoke [n]" stack up to the first "failed:" line.
+ */
+function findFailedInvocation(logs: string[]): FailedInvocation | null {
+  const stack: string[] = [];
+  for (const log of logs) {
+    const invoke = log.match(/^Program (\w+) invoke \[(\d+)\]/);
+    if (invoke) {
+      stack.push(invoke[1]);
+      continue;
+    }
+    if (/^Program \w+ success$/.test(log)) {
+      stack.pop();
+      continue;
+    }
+    const failed = log.match(/^Program (\w+) failed: (.*)$/);
+    if (failed) {
+      return { programId: failed[1], depth: Math.max(stack.length, 1), reason: failed[2] };
+    }
+  }
+  return null;
+}
+
+function errorText(error: unknown): string {
+  if (error instanceof Error) return `${error.name}: ${error.message}`;
+  if (typeof error === "string") return error;
+  try {
+    return JSON.stringify(error);
+  } catch {
+    return String(error);
+  }
+}
+
+function errorLogs(error: unknown): string[] {
+  // SendTransactionError carries simulation logs
+  const logs = (error as { logs?: unknown } | null)?.logs;
+  return Array.isArray(logs) ? logs.filter((l): l is string => typeof l === "string") : [];
+}
+
+/**
+ * Classify a failed transaction from the thrown error and/or its logs.
+ * Accepts wallet errors, SendTransactionError, confirmation `err` objects
+ * and raw log arrays, and always returns a user-facing result.
+ */
+export function classifyTxError(error: unknown, logs: string[] = []): TxErrorInfo {
+  const raw = errorText(error);
+  const allLogs = logs.length > 0 ? logs : errorLogs(error);
+  const text = `${raw}\n${allLogs.join("\n")}`;
+
+  const result = (
+    category: TxErrorCategory,
+    name: string,
+    message: string,
+    hint: string,
+    action: RecoveryAction,
+    extra: Partial<TxErrorInfo> = {},
+  ): TxErrorInfo => ({ category, name, message, hint, action, raw, ...extra });
+
+  if (/user rejected|rejected the request|request rejected|user denied|WalletSignTransactionError|cancell?ed by user/i.test(raw)) {
+    return result("userRejected", "UserRejected", "Transaction was cancelled in your wallet.",
+      "Approve the request in your wallet to continue.", "none");
+  }
+
+  if (/block ?height exceeded|blockhash not found|TransactionExpired(BlockheightExceeded|Timeout)/i.test(text)) {
+    return result("blockhashExpired", "BlockhashExpired", "The transaction expired before it landed.",
+      "The network is congested. Retry to sign with a fresh blockhash.", "retry");
+  }
+
+  if (/exceeded CUs meter|computational budget exceeded|ComputationalBudgetExceeded|exceeded maximum compute/i.test(text)) {
+    return result("computeBudget", "ComputeBudgetExceeded", "The transaction ran out of compute units.",
+      "Retry with a higher compute unit limit.", "raiseComputeLimit");
+  }
+
+  if (/insufficient lamports|InsufficientFundsForRent|insufficient funds for rent|InsufficientFundsForFee|no record of a prior credit/i.test(text)) {
+    return result("rent", "InsufficientSol", "Not enough SOL to cover fees and rent.",
+      "Add SOL to your wallet and try again.", "addSol");
+  }
+
+  const failed = findFailedInvocation(allLogs);
+  // Logs give "custom program error: 0x..", a bare confirmation err gives {"Custom":n}
+  const custom = (failed?.reason ?? raw).match(/custom program error: 0x([0-9a-fA-F]+)/);
+  const bare = custom ? null : raw.match(/"Custom":(\d+)/);
+  const code = custom ? parseInt(custom[1], 16) : bare ? parseInt(bare[1], 10) : undefined;
+
+  if (failed?.programId === TOKEN_PROGRAM || /Program log: Error: insufficient funds/.test(text)) {
+    const name = code !== undefined ? SPL_TOKEN_ERRORS[code] ?? `TokenError(${code})` : "InsufficientFunds";
+    const insufficient = name === "InsufficientFunds";
+    return result("splToken", name,
+      insufficient ? "Not enough wrapped SOL in your token account." : `Token program error: ${name}.`,
+      insufficient ? "Wrap more SOL into your wSOL account, then retry." : "Check your token accounts for this market.",
+      insufficient ? "wrapSol" : "none",
+      { code, programId: TOKEN_PROGRAM });
+  }
+
+  // Percolator only CPIs into the token program and the LP's matcher,
+  // so any other failing inner program is the matcher.
+  if (failed && failed.depth >= 2 && failed.programId !== SYSTEM_PROGRAM) {
+    return result("matcherCpi", "MatcherFailed", "The LP's matcher rejected the trade.",
+      "The LP may lack liquidity for this size. Try a smaller trade.", "adjustTrade",
+      { code, programId: failed.programId });
+  }
+
+  if (code !== undefined) {
+    const info = decodeError(code);
+    if (info?.name === "EngineInvalidMatchingEngine") {
+      return result("matcherCpi", info.name, "The matcher for this LP does not match the market.",
+        info.hint, "none", { code, programId: failed?.programId });
+    }
+    const undercollateralized = info?.name === "EngineUndercollateralized" || info?.name === "EngineInsufficientBalance";
+    return result("program", info?.name ?? `Unknown(${code})`,
+      `${info?.name ?? "Program error"} (0x${code.toString(16)})`,
+      info?.hint ?? "The program rejected the transaction.",
+      undercollateralized ? "adjustTrade" : "none",
+      { code, programId: failed?.programId });
+  }
+
+  return result("unknown", "Unknown", failed?.reason ?? (error instanceof Error ? error.message : raw),
+    "Try again. If it keeps failing, check the transaction on an explorer.", "retry",
+    { programId: failed?.programId });
+}
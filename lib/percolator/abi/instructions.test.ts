@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import { PublicKey } from "@solana/web3.js";
+import {
+  IX_TAG,
+  ACCOUNTS_BY_IX,
+  decodeInstruction,
+  encodeInitMarket,
+  encodeInitUser,
+  encodeInitLP,
+  encodeDepositCollateral,
+  encodeWithdrawCollateral,
+  encodeKeeperCrank,
+  encodeTradeNoCpi,
+  encodeLiquidateAtOracle,
+  encodeCloseAccount,
+  encodeTopUpInsurance,
+  encodeTradeCpi,
+  encodeSetRiskThreshold,
+  encodeUpdateAdmin,
+  encodeCloseSlab,
+  encodeUpdateConfig,
+  encodeSetMaintenanceFee,
+  encodeSetOracleAuthority,
+  encodePushOraclePrice,
+  encodeSetOraclePriceCap,
+  encodeResolveMarket,
+  encodeWithdrawInsurance,
+  type IxName,
+  type DecodedArgsMap,
+} from "./instructions";
+import { ACCOUNTS_SET_ORACLE_PRICE_CAP } from "./accounts";
+
+const key = (seed: number) => new PublicKey(Buffer.alloc(32, seed));
+
+// One case per instruction: decoder-shaped args (bigint / PublicKey) and
+// the encoder fed those same args
+type RoundTripCases = {
+  [N in IxName]: { args: DecodedArgsMap[N]; encode: (args: DecodedArgsMap[N]) => Buffer };
+};
+
+const CASES: RoundTripCases = {
+  InitMarket: {
+    args: {
+      admin: key(1),
+      collateralMint: key(2),
+      indexFeedId: "ab".repeat(32),
+      maxStalenessSecs: 60n,
+      confFilterBps: 250,
+      invert: 1,
+      unitScale: 1000,
+      initialMarkPriceE6: 1_500_000n,
+      warmupPeriodSlots: 100n,
+      maintenanceMarginBps: 500n,
+      initialMarginBps: 1000n,
+      tradingFeeBps: 10n,
+      maxAccounts: 4096n,
+      newAccountFee: 1_000_000n,
+      riskReductionThreshold: (1n << 100n) + 7n,
+      maintenanceFeePerSlot: 3n,
+      maxCrankStalenessSlots: 200n,
+      liquidationFeeBps: 100n,
+      liquidationFeeCap: 10_000_000_000n,
+      liquidationBufferBps: 50n,
+      minLiquidationAbs: 1n,
+    },
+    encode: encodeInitMarket,
+  },
+  InitUser: { args: { feePayment: 1_000_000n }, encode: encodeInitUser },
+  InitLP: {
+    args: { matcherProgram: key(3), matcherContext: key(4), feePayment: 2_000_000n },
+    encode: encodeInitLP,
+  },
+  DepositCollateral: { args: { userIdx: 7, amount: 123_456_789n }, encode: encodeDepositCollateral },
+  WithdrawCollateral: { args: { userIdx: 65535, amount: (1n << 64n) - 1n }, encode: encodeWithdrawCollateral },
+  KeeperCrank: { args: { callerIdx: 0, allowPanic: true }, encode: encodeKeeperCrank },
+  TradeNoCpi: { args: { lpIdx: 0, userIdx: 3, size: -5_000_000n }, encode: encodeTradeNoCpi },
+  LiquidateAtOracle: { args: { targetIdx: 42 }, encode: encodeLiquidateAtOracle },
+  CloseAccount: { args: { userIdx: 9 }, encode: encodeCloseAccount },
+  TopUpInsurance: { args: { amount: 500n }, encode: encodeTopUpInsurance },
+  TradeCpi: { args: { lpIdx: 1, userIdx: 2, size: (1n << 100n) }, encode: encodeTradeCpi },
+  SetRiskThreshold: { args: { newThreshold: 10n ** 30n }, encode: encodeSetRiskThreshold },
+  UpdateAdmin: { args: { newAdmin: key(5) }, encode: encodeUpdateAdmin },
+  CloseSlab: { args: {}, encode: () => encodeCloseSlab() },
+  UpdateConfig: {
+    args: {
+      fundingHorizonSlots: 500n,
+      fundingKBps: 100n,
+      fundingInvScaleNotionalE6: 1_000_000_000_000n,
+      fundingMaxPremiumBps: -500n,
+      fundingMaxBpsPerSlot: 5n,
+      threshFloor: 1n,
+      threshRiskBps: 2n,
+      threshUpdateIntervalSlots: 3n,
+      threshStepBps: 4n,
+      threshAlphaBps: 5n,
+      threshMin: 6n,
+      threshMax: 7n,
+      threshMinStep: 8n,
+    },
+    encode: encodeUpdateConfig,
+  },
+  SetMaintenanceFee: { args: { newFee: 11n }, encode: encodeSetMaintenanceFee },
+  SetOracleAuthority: { args: { newAuthority: PublicKey.default }, encode: encodeSetOracleAuthority },
+  PushOraclePrice: { args: { priceE6: 2_000_000n, timestamp: -1n }, encode: encodePushOraclePrice },
+  SetOraclePriceCap: { args: { maxChangeE2bps: 1_000_000n }, encode: encodeSetOraclePriceCap },
+  ResolveMarket: { args: {}, encode: () => encodeResolveMarket() },
+  WithdrawInsurance: { args: {}, encode: () => encodeWithdrawInsurance() },
+};
+
+describe("decodeInstruction round trip", () => {
+  it("covers every instruction tag", () => {
+    expect(Object.keys(CASES).sort()).toEqual(Object.keys(IX_TAG).sort());
+  });
+
+  for (const name of Object.keys(IX_TAG) as IxName[]) {
+    it(name, () => {
+      const { args, encode } = CASES[name] as {
+        args: DecodedArgsMap[IxName];
+        encode: (args: DecodedArgsMap[IxName]) => Buffer;
+      };
+      const spec = ACCOUNTS_BY_IX[name];
+      const keys = spec.map((_, i) => key(100 + i));
+
+      const decoded = decodeInstruction(encode(args), keys);
+
+      expect(decoded.name).toBe(name);
+      expect(decoded.tag).toBe(IX_TAG[name]);
+      expect(decoded.args).toEqual(args);
+      expect(decoded.accounts).toEqual(Object.fromEntries(spec.map((s, i) => [s.name, keys[i]])));
+      expect(decoded.remainingAccounts).toEqual([]);
+    });
+  }
+
+  it("uses the SetOraclePriceCap account spec", () => {
+    expect(ACCOUNTS_BY_IX.SetOraclePriceCap).toBe(ACCOUNTS_SET_ORACLE_PRICE_CAP);
+    const decoded = decodeInstruction(encodeSetOraclePriceCap({ maxChangeE2bps: 0n }), [key(1), key(2)]);
+    expect(decoded.accounts).toEqual({ admin: key(1), slab: key(2) });
+  });
+
+  it("keeps keys past the spec as remaining accounts", () => {
+    const decoded = decodeInstruction(encodeCloseAccount({ userIdx: 1 }), [
+      ...ACCOUNTS_BY_IX.CloseAccount.map((_, i) => key(i + 1)),
+      key(99),
+    ]);
+    expect(decoded.remainingAccounts).toEqual([key(99)]);
+  });
+
+  it("rejects truncated data and short key lists", () => {
+    const data = encodeDepositCollateral({ userIdx: 1, amount: 1n });
+    const keys = ACCOUNTS_BY_IX.DepositCollateral.map((_, i) => key(i + 1));
+    expect(() => decodeInstruction(data.subarray(0, data.length - 1), keys)).toThrow(/too short/);
+    expect(() => decodeInstruction(data, keys.slice(1))).toThrow(/account count mismatch/);
+    expect(() => decodeInstruction(Buffer.from([255]), [])).toThrow(/Unknown instruction tag/);
+  });
+});
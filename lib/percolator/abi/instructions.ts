@@ -1,4 +1,4 @@
-import { PublicKey } from "@solana/web3.js";
+import { PublicKey, TransactionInstruction } from "@solana/web3.js";
 import {
   encU8,
   encU16,
@@ -9,6 +9,40 @@ import {
   encI128,
   encPubkey,
 } from "./encode";
+import {
+  decU8,
+  decU16,
+  decU32,
+  decU64,
+  decI64,
+  decU128,
+  decI128,
+  decPubkey,
+} from "./decode";
+import {
+  type AccountSpec,
+  ACCOUNTS_INIT_MARKET,
+  ACCOUNTS_INIT_USER,
+  ACCOUNTS_INIT_LP,
+  ACCOUNTS_DEPOSIT_COLLATERAL,
+  ACCOUNTS_WITHDRAW_COLLATERAL,
+  ACCOUNTS_KEEPER_CRANK,
+  ACCOUNTS_TRADE_NOCPI,
+  ACCOUNTS_LIQUIDATE_AT_ORACLE,
+  ACCOUNTS_CLOSE_ACCOUNT,
+  ACCOUNTS_TOPUP_INSURANCE,
+  ACCOUNTS_TRADE_CPI,
+  ACCOUNTS_SET_RISK_THRESHOLD,
+  ACCOUNTS_UPDATE_ADMIN,
+  ACCOUNTS_CLOSE_SLAB,
+  ACCOUNTS_UPDATE_CONFIG,
+  ACCOUNTS_SET_MAINTENANCE_FEE,
+  ACCOUNTS_SET_ORACLE_AUTHORITY,
+  ACCOUNTS_PUSH_ORACLE_PRICE,
+  ACCOUNTS_SET_ORACLE_PRICE_CAP,
+  ACCOUNTS_RESOLVE_MARKET,
+  ACCOUNTS_WITHDRAW_INSURANCE,
+} from "./accounts";
 
 /**
  * Instruction tags - exact match to Rust ix::Instruction::decode
@@ -414,3 +448,252 @@ export function encodeResolveMarket(): Buffer {
 export function encodeWithdrawInsurance(): Buffer {
   return encU8(IX_TAG.WithdrawInsurance);
 }
+
+// ============================================================================
+// DECODING - inverse of the encode* functions above
+// ============================================================================
+
+export type IxName = keyof typeof IX_TAG;
+
+/**
+ * Instructions that carry no data beyond the tag byte.
+ */
+export type EmptyArgs = Record<string, never>;
+
+/**
+ * Narrow an encoder input type to what the decoder produces:
+ * `bigint | string` becomes bigint and `PublicKey | string` becomes PublicKey.
+ */
+type Narrow<V> = bigint extends V ? bigint : PublicKey extends V ? PublicKey : V;
+export type Decoded<T> = { [K in keyof T]: Narrow<T[K]> };
+
+interface ArgsMap {
+  InitMarket: InitMarketArgs;
+  InitUser: InitUserArgs;
+  InitLP: InitLPArgs;
+  DepositCollateral: DepositCollateralArgs;
+  WithdrawCollateral: WithdrawCollateralArgs;
+  KeeperCrank: KeeperCrankArgs;
+  TradeNoCpi: TradeNoCpiArgs;
+  LiquidateAtOracle: LiquidateAtOracleArgs;
+  CloseAccount: CloseAccountArgs;
+  TopUpInsurance: TopUpInsuranceArgs;
+  TradeCpi: TradeCpiArgs;
+  SetRiskThreshold: SetRiskThresholdArgs;
+  UpdateAdmin: UpdateAdminArgs;
+  CloseSlab: EmptyArgs;
+  UpdateConfig: UpdateConfigArgs;
+  SetMaintenanceFee: SetMaintenanceFeeArgs;
+  SetOracleAuthority: SetOracleAuthorityArgs;
+  PushOraclePrice: PushOraclePriceArgs;
+  SetOraclePriceCap: SetOraclePriceCapArgs;
+  ResolveMarket: EmptyArgs;
+  WithdrawInsurance: EmptyArgs;
+}
+
+/**
+ * Args type produced for each instruction when decoding.
+ */
+export type DecodedArgsMap = { [N in IxName]: Decoded<ArgsMap[N]> };
+
+/**
+ * A decoded Percolator instruction, discriminated on `name`.
+ * Numeric fields come back as bigint and pubkeys as PublicKey, so every
+ * `args` value can be passed straight back to the matching encoder
+ * (e.g. `encodeTradeCpi(decoded.args)` reproduces the original data).
+ */
+export type DecodedInstruction = {
+  [N in IxName]: {
+    tag: (typeof IX_TAG)[N];
+    name: N;
+    args: DecodedArgsMap[N];
+    /** Accounts keyed by their name in the matching ACCOUNTS_* spec */
+    accounts: Record<string, PublicKey>;
+    /** Any keys passed beyond the spec length */
+    remainingAccounts: PublicKey[];
+  };
+}[IxName];
+
+/**
+ * Account spec for each instruction, keyed by name.
+ */
+export const ACCOUNTS_BY_IX: Record<IxName, readonly AccountSpec[]> = {
+  InitMarket: ACCOUNTS_INIT_MARKET,
+  InitUser: ACCOUNTS_INIT_USER,
+  InitLP: ACCOUNTS_INIT_LP,
+  DepositCollateral: ACCOUNTS_DEPOSIT_COLLATERAL,
+  WithdrawCollateral: ACCOUNTS_WITHDRAW_COLLATERAL,
+  KeeperCrank: ACCOUNTS_KEEPER_CRANK,
+  TradeNoCpi: ACCOUNTS_TRADE_NOCPI,
+  LiquidateAtOracle: ACCOUNTS_LIQUIDATE_AT_ORACLE,
+  CloseAccount: ACCOUNTS_CLOSE_ACCOUNT,
+  TopUpInsurance: ACCOUNTS_TOPUP_INSURANCE,
+  TradeCpi: ACCOUNTS_TRADE_CPI,
+  SetRiskThreshold: ACCOUNTS_SET_RISK_THRESHOLD,
+  UpdateAdmin: ACCOUNTS_UPDATE_ADMIN,
+  CloseSlab: ACCOUNTS_CLOSE_SLAB,
+  UpdateConfig: ACCOUNTS_UPDATE_CONFIG,
+  SetMaintenanceFee: ACCOUNTS_SET_MAINTENANCE_FEE,
+  SetOracleAuthority: ACCOUNTS_SET_ORACLE_AUTHORITY,
+  PushOraclePrice: ACCOUNTS_PUSH_ORACLE_PRICE,
+  SetOraclePriceCap: ACCOUNTS_SET_ORACLE_PRICE_CAP,
+  ResolveMarket: ACCOUNTS_RESOLVE_MARKET,
+  WithdrawInsurance: ACCOUNTS_WITHDRAW_INSURANCE,
+};
+
+const IX_NAME_BY_TAG: Record<number, IxName> = Object.fromEntries(
+  Object.entries(IX_TAG).map(([name, tag]) => [tag, name as IxName])
+);
+
+/**
+ * Sequential reader over instruction data. Bounds errors are reported with
+ * the instruction name so a truncated payload is easy to spot.
+ */
+function createReader(name: IxName, data: Buffer) {
+  let off = 1; // skip tag
+  const take = (len: number): number => {
+    if (off + len > data.length) {
+      throw new Error(
+        `${name}: instruction data too short (need ${off + len} bytes, got ${data.length})`
+      );
+    }
+    const at = off;
+    off += len;
+    return at;
+  };
+  return {
+    u8: () => decU8(data, take(1)),
+    u16: () => decU16(data, take(2)),
+    u32: () => decU32(data, take(4)),
+    u64: () => decU64(data, take(8)),
+    i64: () => decI64(data, take(8)),
+    u128: () => decU128(data, take(16)),
+    i128: () => decI128(data, take(16)),
+    pubkey: () => decPubkey(data, take(32)),
+    feedId: () => data.subarray(take(32), off).toString("hex"),
+    end: () => {
+      if (off !== data.length) {
+        throw new Error(
+          `${name}: unexpected trailing data (expected ${off} bytes, got ${data.length})`
+        );
+      }
+    },
+  };
+}
+
+type Reader = ReturnType<typeof createReader>;
+
+const ARG_DECODERS: { [N in IxName]: (r: Reader) => DecodedArgsMap[N] } = {
+  InitMarket: (r) => ({
+    admin: r.pubkey(),
+    collateralMint: r.pubkey(),
+    indexFeedId: r.feedId(),
+    maxStalenessSecs: r.u64(),
+    confFilterBps: r.u16(),
+    invert: r.u8(),
+    unitScale: r.u32(),
+    initialMarkPriceE6: r.u64(),
+    warmupPeriodSlots: r.u64(),
+    maintenanceMarginBps: r.u64(),
+    initialMarginBps: r.u64(),
+    tradingFeeBps: r.u64(),
+    maxAccounts: r.u64(),
+    newAccountFee: r.u128(),
+    riskReductionThreshold: r.u128(),
+    maintenanceFeePerSlot: r.u128(),
+    maxCrankStalenessSlots: r.u64(),
+    liquidationFeeBps: r.u64(),
+    liquidationFeeCap: r.u128(),
+    liquidationBufferBps: r.u64(),
+    minLiquidationAbs: r.u128(),
+  }),
+  InitUser: (r) => ({ feePayment: r.u64() }),
+  InitLP: (r) => ({
+    matcherProgram: r.pubkey(),
+    matcherContext: r.pubkey(),
+    feePayment: r.u64(),
+  }),
+  DepositCollateral: (r) => ({ userIdx: r.u16(), amount: r.u64() }),
+  WithdrawCollateral: (r) => ({ userIdx: r.u16(), amount: r.u64() }),
+  KeeperCrank: (r) => ({ callerIdx: r.u16(), allowPanic: r.u8() !== 0 }),
+  TradeNoCpi: (r) => ({ lpIdx: r.u16(), userIdx: r.u16(), size: r.i128() }),
+  LiquidateAtOracle: (r) => ({ targetIdx: r.u16() }),
+  CloseAccount: (r) => ({ userIdx: r.u16() }),
+  TopUpInsurance: (r) => ({ amount: r.u64() }),
+  TradeCpi: (r) => ({ lpIdx: r.u16(), userIdx: r.u16(), size: r.i128() }),
+  SetRiskThreshold: (r) => ({ newThreshold: r.u128() }),
+  UpdateAdmin: (r) => ({ newAdmin: r.pubkey() }),
+  CloseSlab: () => ({}),
+  UpdateConfig: (r) => ({
+    fundingHorizonSlots: r.u64(),
+    fundingKBps: r.u64(),
+    fundingInvScaleNotionalE6: r.u128(),
+    fundingMaxPremiumBps: r.i64(),
+    fundingMaxBpsPerSlot: r.i64(),
+    threshFloor: r.u128(),
+    threshRiskBps: r.u64(),
+    threshUpdateIntervalSlots: r.u64(),
+    threshStepBps: r.u64(),
+    threshAlphaBps: r.u64(),
+    threshMin: r.u128(),
+    threshMax: r.u128(),
+    threshMinStep: r.u128(),
+  }),
+  SetMaintenanceFee: (r) => ({ newFee: r.u128() }),
+  SetOracleAuthority: (r) => ({ newAuthority: r.pubkey() }),
+  PushOraclePrice: (r) => ({ priceE6: r.u64(), timestamp: r.i64() }),
+  SetOraclePriceCap: (r) => ({ maxChangeE2bps: r.u64() }),
+  ResolveMarket: () => ({}),
+  WithdrawInsurance: () => ({}),
+};
+
+/**
+ * Decode raw Percolator instruction data and its account keys.
+ * Keys must be in instruction order, as they appear in the transaction.
+ */
+export function decodeInstruction(
+  data: Buffer | Uint8Array,
+  keys: PublicKey[]
+): DecodedInstruction {
+  const buf = Buffer.isBuffer(data) ? data : Buffer.from(data);
+  if (buf.length < 1) {
+    throw new Error("Instruction data is empty");
+  }
+
+  const tag = buf.readUInt8(0);
+  const name = IX_NAME_BY_TAG[tag];
+  if (!name) {
+    throw new Error(`Unknown instruction tag: ${tag}`);
+  }
+
+  const spec = ACCOUNTS_BY_IX[name];
+  if (keys.length < spec.length) {
+    throw new Error(
+      `${name}: account count mismatch: expected ${spec.length}, got ${keys.length}`
+    );
+  }
+
+  const reader = createReader(name, buf);
+  const args = ARG_DECODERS[name](reader);
+  reader.end();
+
+  const accounts: Record<string, PublicKey> = {};
+  spec.forEach((s, i) => {
+    accounts[s.name] = keys[i];
+  });
+
+  return {
+    tag,
+    name,
+    args,
+    accounts,
+    remainingAccounts: keys.slice(spec.length),
+  } as DecodedInstruction;
+}
+
+/**
+ * Decode a TransactionInstruction targeting the Percolator program.
+ */
+export function decodeTransactionInstruction(ix: TransactionInstruction): DecodedInstruction {
+  return decodeInstruction(ix.data, ix.keys.map((k) => k.pubkey));
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { SlabBuilder } from './solana/builder';
+import { parseAccount } from './solana/slab';
+import { readSlabCached, invalidateSlab, clearSlabCache } from './cache';
+
+const SLAB = new PublicKey(Buffer.alloc(32, 5));
+
+const slabWithCapital = (capital: bigint) => new SlabBuilder().account(2, { capital }).build();
+
+// Serves slices of `data`; while held, every read waits for release()
+function stubConnection(initial: Buffer) {
+  let data = initial;
+  let gate: Promise<void> | null = null;
+  let open = () => {};
+  const calls = { reads: 0 };
+
+  const connection = {
+    rpcEndpoint: 'http://stub',
+    async getAccountInfo(_pubkey: PublicKey, { dataSlice }: { dataSlice: { offset: number; length: number } }) {
+      calls.reads++;
+      if (gate) await gate;
+      return { data: data.subarray(dataSlice.offset, dataSlice.offset + dataSlice.length) };
+    },
+  } as unknown as Connection;
+
+  return {
+    connection,
+    calls,
+    write(next: Buffer) { data = next; },
+    hold() { gate = new Promise(resolve => { open = resolve; }); },
+    release() { gate = null; open(); },
+  };
+}
+
+const capitalOf = (data: Buffer) => parseAccount(data, 2).capital;
+
+beforeEach(() => clearSlabCache());
+afterEach(() => vi.useRealTimers());
+
+describe('readSlabCached', () => {
+  it('shares one fetch between concurrent callers', async () => {
+    const rpc = stubConnection(slabWithCapital(1_000n));
+    await readSlabCached(rpc.connection, SLAB, 'used');
+    const readsPerFetch = rpc.calls.reads;
+    clearSlabCache();
+    rpc.calls.reads = 0;
+
+    rpc.hold();
+    const reads = [
+      readSlabCached(rpc.connection, SLAB, 'used'),
+      readSlabCached(rpc.connection, SLAB, 'used'),
+      readSlabCached(rpc.connection, SLAB, 'head'),   // Joins the in-flight 'used' fetch
+    ];
+    rpc.release();
+    const [a, b, head] = await Promise.all(reads);
+
+    expect(rpc.calls.reads).toBe(readsPerFetch);
+    expect(b).toBe(a);
+    expect(head).toBe(a);
+  });
+
+  it('serves reads from memory until maxAgeMs has passed', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const rpc = stubConnection(slabWithCapital(1_000n));
+
+    const first = await readSlabCached(rpc.connection, SLAB, 'used', 2_000);
+    const readsPerFetch = rpc.calls.reads;
+    rpc.write(slabWithCapital(2_000n));
+
+    vi.advanceTimersByTime(2_000);
+    expect(await readSlabCached(rpc.connection, SLAB, 'used', 2_000)).toBe(first);
+    expect(await readSlabCached(rpc.connection, SLAB, 'head', 2_000)).toBe(first);   // A fresh 'used' read covers 'head'
+    expect(rpc.calls.reads).toBe(readsPerFetch);
+
+    vi.advanceTimersByTime(1);
+    expect(capitalOf(await readSlabCached(rpc.connection, SLAB, 'used', 2_000))).toBe(2_000n);
+    expect(rpc.calls.reads).toBe(2 * readsPerFetch);
+  });
+
+  it('does not cache a fetch that was in flight when the slab was invalidated', async () => {
+    const rpc = stubConnection(slabWithCapital(1_000n));
+    rpc.hold();
+    const stale = readSlabCached(rpc.connection, SLAB, 'used');
+    invalidateSlab(SLAB);
+    rpc.release();
+    expect(capitalOf(await stale)).toBe(1_000n);
+
+    rpc.write(slabWithCapital(2_000n));
+    expect(capitalOf(await readSlabCached(rpc.connection, SLAB, 'used'))).toBe(2_000n);
+  });
+
+  it('starts a new fetch after invalidation instead of joining the stale one', async () => {
+    const rpc = stubConnection(slabWithCapital(1_000n));
+    rpc.hold();
+    const stale = readSlabCached(rpc.connection, SLAB, 'used');
+    invalidateSlab(SLAB);
+    const fresh = readSlabCached(rpc.connection, SLAB, 'used');
+    rpc.release();
+    const [staleData, freshData] = await Promise.all([stale, fresh]);
+
+    expect(freshData).not.toBe(staleData);
+    const reads = rpc.calls.reads;
+    expect(await readSlabCached(rpc.connection, SLAB, 'used')).toBe(freshData);
+    expect(rpc.calls.reads).toBe(reads);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Process-wide slab cache — shared by every PercolatorClient, since clients
+ * are created per call. Concurrent reads of a slab share one RPC request,
+ * reads within the max age are served from memory, and invalidateSlab()
+ * drops a slab once something is known to have written it.
+ *
+ * Cached buffers are shared between callers and must not be mutated.
+ */
+import { Connection, PublicKey } from '@solana/web3.js';
+
+import { fetchSlabHead, fetchSlabUsed } from './solana/slab';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** head: header, config and engine; used: up to the highest used account */
+export type SlabReadKind = 'head' | 'used';
+
+export const DEFAULT_SLAB_MAX_AGE_MS = 2_000;
+
+interface CacheEntry {
+  data: Buffer | null;
+  fetchedAt: number;
+  inflight: Promise<Buffer> | null;
+}
+
+// slab -> `${rpcEndpoint}|${kind}` -> entry
+const entries = new Map<string, Map<string, CacheEntry>>();
+
+// Bumped on invalidation, so fetches already in flight don't repopulate
+const generations = new Map<string, number>();
+
+// ============================================================================
+// Reads
+// ============================================================================
+
+/**
+ * Slab data no older than maxAgeMs. A fresh 'used' read also serves 'head'
+ * reads (it starts with the head), and a 'head' read joins an in-flight
+ * 'used' fetch rather than starting its own.
+ */
+export async function readSlabCached(
+  connection: Connection,
+  slab: PublicKey,
+  kind: SlabReadKind,
+  maxAgeMs: number = DEFAULT_SLAB_MAX_AGE_MS,
+): Promise<Buffer> {
+  const slabKey = slab.toBase58();
+  let bySlab = entries.get(slabKey);
+  if (!bySlab) {
+    bySlab = new Map();
+    entries.set(slabKey, bySlab);
+  }
+
+  const kinds: SlabReadKind[] = kind === 'head' ? ['used', 'head'] : ['used'];
+  const now = Date.now();
+  for (const k of kinds) {
+    const entry = bySlab.get(`${connection.rpcEndpoint}|${k}`);
+    if (entry?.data && now - entry.fetchedAt <= maxAgeMs) return entry.data;
+  }
+  for (const k of kinds) {
+    const inflight = bySlab.get(`${connection.rpcEndpoint}|${k}`)?.inflight;
+    if (inflight) return inflight;
+  }
+
+  const entryKey = `${connection.rpcEndpoint}|${kind}`;
+  const entry: CacheEntry = bySlab.get(entryKey) ?? { data: null, fetchedAt: 0, inflight: null };
+  bySlab.set(entryKey, entry);
+
+  const generation = generations.get(slabKey) ?? 0;
+  const fetch = kind === 'head' ? fetchSlabHead : fetchSlabUsed;
+  entry.inflight = fetch(connection, slab)
+    .then(data => {
+      if ((generations.get(slabKey) ?? 0) === generation) {
+        entry.data = data;
+        entry.fetchedAt = Date.now();
+      }
+      return data;
+    })
+    .finally(() => {
+      entry.inflight = null;
+    });
+  return entry.inflight;
+}
+
+// ============================================================================
+// Invalidation
+// ============================================================================
+
+/**
+ * Drop everything cached for a slab, on every connection. The next read
+ * refetches; reads already in flight still resolve but are not cached.
+ */
+export function invalidateSlab(slab: PublicKey): void {
+  const slabKey = slab.toBase58();
+  generations.set(slabKey, (generations.get(slabKey) ?? 0) + 1);
+  entries.delete(slabKey);
+}
+
+/**
+ * Drop the whole cache.
+ */
+export function clearSlabCache(): void {
+  for (const slabKey of entries.keys()) {
+    generations.set(slabKey, (generations.get(slabKey) ?? 0) + 1);
+  }
+  entries.clear();
+}
@@ -3,12 +3,14 @@
  * Uses wallet adapter (signTransaction) instead of raw Keypair
  */
 import {
+  AddressLookupTableAccount,
   Connection,
   PublicKey,
   Transaction,
+  TransactionMessage,
   VersionedTransaction,
   TransactionInstruction,
-  ComputeBudgetProgram,
+  PACKET_DATA_SIZE,
   type SendOptions,
 } from '@solana/web3.js';
 
@@ -25,8 +27,17 @@ import {
   encodeTopUpInsurance,
   encodeSetOracleAuthority,
   encodePushOraclePrice,
+  encodeUpdateConfig,
+  encodeSetRiskThreshold,
+  encodeUpdateAdmin,
+  encodeCloseSlab,
+  encodeSetMaintenanceFee,
+  encodeSetOraclePriceCap,
+  encodeResolveMarket,
+  encodeWithdrawInsurance,
   type InitMarketArgs,
   type InitLPArgs,
+  type UpdateConfigArgs,
 } from './abi/instructions';
 
 import {
@@ -44,13 +55,30 @@ import {
   ACCOUNTS_TOPUP_INSURANCE,
   ACCOUNTS_SET_ORACLE_AUTHORITY,
   ACCOUNTS_PUSH_ORACLE_PRICE,
+  ACCOUNTS_UPDATE_CONFIG,
+  ACCOUNTS_SET_RISK_THRESHOLD,
+  ACCOUNTS_UPDATE_ADMIN,
+  ACCOUNTS_CLOSE_SLAB,
+  ACCOUNTS_SET_MAINTENANCE_FEE,
+  ACCOUNTS_SET_ORACLE_PRICE_CAP,
+  ACCOUNTS_RESOLVE_MARKET,
+  ACCOUNTS_WITHDRAW_INSURANCE,
+  type AccountSpec,
 } from './abi/accounts';
 
 import { deriveVaultAuthority, deriveLpPda } from './solana/pda';
-import { fetchSlab, parseConfig, parseAccount, parseAllAccounts, parseEngine, parseUsedIndices, AccountKind } from './solana/slab';
-import type { MarketConfig, Account, EngineState } from './solana/slab';
-import { getAta } from './solana/ata';
-import { parseErrorFromLogs } from './abi/errors';
+import { fetchAccount, parseHeader, parseConfig, parseParams, parseAllAccounts, parseEngine, parseUsedIndices,
+         isAccountUsed, detectSlabLayout, AccountKind } from './solana/slab';
+import type { SlabHeader, MarketConfig, Account, EngineState } from './solana/slab';
+import { getAta, createAtaIdempotentIx, wrapSolIxs, NATIVE_MINT } from './solana/ata';
+import { classifyTxError, type TxErrorInfo } from './abi/errors';
+import { parseSlabSnapshot, type SlabSnapshot } from './subscribe';
+import { sendWithRetry, type TxLifecycleHandler } from './sender';
+import { sizeComputeBudget, combineTransactionInstructions, DEFAULT_FEE_LEVEL, type FeeLevel } from './fees';
+import { computeMargin, engineMarkPrice, leverageFromBps } from './risk';
+import { readSlabCached, invalidateSlab, DEFAULT_SLAB_MAX_AGE_MS } from './cache';
+import { marketLookupAddresses, missingLookupAddresses, buildCreateLookupTableIx, buildExtendLookupTableIxs,
+         fetchMarketLookupTable } from './solana/alt';
 
 // ============================================================================
 // Mainnet Config — meme-liquid deployed programs (zero cost to us)
@@ -68,18 +96,60 @@ export const MAINNET_CONFIG = {
 export interface WalletAdapter {
   publicKey: PublicKey;
   signTransaction: <T extends Transaction | VersionedTransaction>(tx: T) => Promise<T>;
+  signAllTransactions?: <T extends Transaction | VersionedTransaction>(txs: T[]) => Promise<T[]>;   // One prompt for a batch
 }
 
 export interface PercolatorConfig {
   programId: PublicKey;
   slabPubkey: PublicKey;
   connection: Connection;
+  feeLevel?: FeeLevel;           // Priority fee policy for built transactions (default: normal)
+  lookupTables?: AddressLookupTableAccount[];   // Used when compiling v0 transactions
+  lookupTable?: PublicKey;       // The market's table, as persisted by whoever created it; loaded on demand
+  slabMaxAgeMs?: number;         // Serve slab reads from the shared cache within this age (default: 2000)
 }
 
 export interface TxResult {
   signature: string;
   error: string | null;
   hint?: string;
+  failure?: TxErrorInfo;         // Classified error with category and recovery action
+}
+
+export interface OpenPositionParams {
+  userIdx: number;
+  lpIdx: number;
+  collateral: bigint;            // Deposited before the trade; 0n trades on existing capital
+  size: bigint;                  // Positive = long, negative = short
+  matcherProgram: PublicKey;
+  matcherCtx: PublicKey;
+}
+
+export type OpenPositionPlan =
+  | { atomic: true; transactions: (Transaction | VersionedTransaction)[] }
+  | { atomic: false; transactions: Transaction[] };   // Funding, then trade; send in order
+
+export interface LookupTablePlan {
+  lookupTable: PublicKey;
+  transactions: Transaction[];   // Send in order; empty when the table is complete
+}
+
+export interface SimulationResult {
+  ok: boolean;
+  failure?: TxErrorInfo;         // Decoded from the simulation error and logs
+  unitsConsumed: number | null;
+  logs: string[];
+  postState: SlabSnapshot | null;  // Slab as it would be after the tx (null unless requested and ok)
+}
+
+export interface SimulateOptions {
+  postState?: boolean;           // Fetch and parse the simulated slab (default: true)
+}
+
+export interface SendTxOptions {
+  preflight?: boolean;           // Simulate before the wallet prompt (default: true)
+  resign?: number;               // Fresh-blockhash re-signs allowed after expiry (default: 0)
+  onEvent?: TxLifecycleHandler;  // signed, sent, processed, confirmed, finalized, failed
 }
 
 export interface MarketInfo {
@@ -99,6 +169,35 @@ export interface PositionInfo {
   leverage: number;
 }
 
+export interface OwnedAccount {
+  idx: number;
+  kind: 'user' | 'lp';
+  account: Account;
+  capital: bigint;
+  pnl: bigint;
+  positionSize: bigint;          // Positive = long, negative = short, 0 = flat
+}
+
+/**
+ * The accounts `owner` holds, from parsed (idx, account) pairs such as a
+ * pushed snapshot's accounts.
+ */
+export function ownedAccounts(accounts: Iterable<[number, Account]>, owner: PublicKey): OwnedAccount[] {
+  return [...accounts]
+    .filter(([, account]) => account.owner.equals(owner))
+    .map(([idx, account]) => ({
+      idx,
+      kind: account.kind === AccountKind.LP ? 'lp' as const : 'user' as const,
+      account,
+      capital: account.capital,
+      pnl: account.pnl,
+      positionSize: account.positionSize,
+    }));
+}
+
+// Last known account index per slab+owner. Clients are created per call,
+// so this lives at module level to let lookups skip the full scan.
+const knownAccountIdx = new Map<string, number>();
 
 // ============================================================================
 // Client Class
@@ -108,33 +207,65 @@ export class PercolatorClient {
   public connection: Connection;
   public programId: PublicKey;
   public slabPubkey: PublicKey;
+  public feeLevel: FeeLevel;
+  public lookupTables: AddressLookupTableAccount[];
+  public lookupTable: PublicKey | null;
+  public slabMaxAgeMs: number;
   private slabData: Buffer | null = null;
+  private slabHead: Buffer | null = null;
   private marketConfig: MarketConfig | null = null;
 
   constructor(config: PercolatorConfig) {
     this.connection = config.connection;
     this.programId = config.programId;
     this.slabPubkey = config.slabPubkey;
+    this.feeLevel = config.feeLevel ?? DEFAULT_FEE_LEVEL;
+    this.lookupTables = config.lookupTables ?? [];
+    this.lookupTable = config.lookupTable ?? null;
+    this.slabMaxAgeMs = config.slabMaxAgeMs ?? DEFAULT_SLAB_MAX_AGE_MS;
   }
 
   // --------------------------------------------------------------------------
   // Data fetching
   // --------------------------------------------------------------------------
 
+  /**
+   * Fetch slab data up to the highest used account (for account scans).
+   * Served from the shared slab cache when no older than slabMaxAgeMs.
+   */
   async refreshSlab(): Promise<Buffer> {
-    this.slabData = await fetchSlab(this.connection, this.slabPubkey);
+    this.slabData = await readSlabCached(this.connection, this.slabPubkey, 'used', this.slabMaxAgeMs);
+    this.slabHead = this.slabData;
     this.marketConfig = parseConfig(this.slabData);
     return this.slabData;
   }
 
+  /**
+   * Fetch header, config and engine only (~1.3KB instead of the full slab).
+   * Served from the shared slab cache like refreshSlab().
+   */
+  async refreshHead(): Promise<Buffer> {
+    this.slabHead = await readSlabCached(this.connection, this.slabPubkey, 'head', this.slabMaxAgeMs);
+    this.marketConfig = parseConfig(this.slabHead);
+    return this.slabHead;
+  }
+
   async getMarketConfig(): Promise<MarketConfig> {
-    if (!this.marketConfig) await this.refreshSlab();
+    if (!this.marketConfig) await this.refreshHead();
     return this.marketConfig!;
   }
 
   async getEngineState(): Promise<EngineState> {
-    if (!this.slabData) await this.refreshSlab();
-    return parseEngine(this.slabData!);
+    const data = this.slabHead ?? await this.refreshHead();
+    return parseEngine(data);
+  }
+
+  /**
+   * Fetch a single account by index with a sliced read.
+   */
+  async getAccount(idx: number): Promise<Account> {
+    const head = this.slabHead ?? await this.refreshHead();
+    return fetchAccount(this.connection, this.slabPubkey, idx, detectSlabLayout(head));
   }
 
   async getMarketInfo(): Promise<MarketInfo> {
@@ -146,28 +277,55 @@ export class PercolatorClient {
     };
   }
 
+  /**
+   * Find the owner's first user account (LP accounts are skipped). When its
+   * index is already known this is a head read plus one account read;
+   * otherwise it falls back to a full scan.
+   */
   async findUserAccount(owner: PublicKey): Promise<{ idx: number; account: Account } | null> {
+    const key = `${this.slabPubkey.toBase58()}:${owner.toBase58()}`;
+    const knownIdx = knownAccountIdx.get(key);
+    if (knownIdx !== undefined) {
+      const head = await this.refreshHead();
+      const layout = detectSlabLayout(head);
+      if (isAccountUsed(head, knownIdx, layout)) {
+        const account = await fetchAccount(this.connection, this.slabPubkey, knownIdx, layout);
+        if (account.owner.equals(owner) && account.kind === AccountKind.User) return { idx: knownIdx, account };
+      }
+      knownAccountIdx.delete(key);
+    }
+
     const data = await this.refreshSlab();
     const accounts = parseAllAccounts(data);
-    const found = accounts.find(a => a.account.owner.equals(owner));
+    const found = accounts.find(a => a.account.owner.equals(owner) && a.account.kind === AccountKind.User);
+    if (found) knownAccountIdx.set(key, found.idx);
     return found || null;
   }
 
+  /**
+   * Every account the owner holds on this market, user and LP, by index.
+   */
+  async findAccountsByOwner(owner: PublicKey): Promise<OwnedAccount[]> {
+    const data = await this.refreshSlab();
+    return ownedAccounts(parseAllAccounts(data).map(({ idx, account }): [number, Account] => [idx, account]), owner);
+  }
+
+  /**
+   * Every open position, with leverage from the risk module at the
+   * engine's mark price (entry price when the market was never priced).
+   */
   async getAllPositions(): Promise<PositionInfo[]> {
     const data = await this.refreshSlab();
     const accounts = parseAllAccounts(data);
-    const engine = parseEngine(data);
-    
+    const params = parseParams(data);
+    const mark = engineMarkPrice(parseConfig(data));
+
     return accounts
       .filter(a => a.account.positionSize !== 0n)
       .map(a => {
-        const notional = a.account.entryPrice > 0n 
-          ? (abs128(a.account.positionSize) * a.account.entryPrice) / 1_000_000n
-          : 0n;
-        const leverage = a.account.capital > 0n && notional > 0n
-          ? Number(notional) / Number(a.account.capital)
-          : 0;
-        
+        const margin = computeMargin(a.account, params, mark || a.account.entryPrice);
+        const leverage = leverageFromBps(margin.leverageBps);
+
         return {
           index: a.idx,
           kind: a.account.kind === AccountKind.LP ? 'lp' as const : 'user' as const,
@@ -199,11 +357,16 @@ export class PercolatorClient {
     ]);
 
     return this.buildTransaction(
+      wallet.publicKey,
       new TransactionInstruction({ programId: this.programId, keys, data: ixData })
     );
   }
 
   async buildDepositTx(wallet: WalletAdapter, userIdx: number, amount: bigint): Promise<Transaction> {
+    return this.buildTransaction(wallet.publicKey, await this.buildDepositIx(wallet, userIdx, amount));
+  }
+
+  private async buildDepositIx(wallet: WalletAdapter, userIdx: number, amount: bigint): Promise<TransactionInstruction> {
     const config = await this.getMarketConfig();
     const userAta = await getAta(wallet.publicKey, config.collateralMint);
 
@@ -217,9 +380,7 @@ export class PercolatorClient {
       WELL_KNOWN.clock,
     ]);
 
-    return this.buildTransaction(
-      new TransactionInstruction({ programId: this.programId, keys, data: ixData })
-    );
+    return new TransactionInstruction({ programId: this.programId, keys, data: ixData });
   }
 
   async buildWithdrawTx(wallet: WalletAdapter, userIdx: number, amount: bigint): Promise<Transaction> {
@@ -240,6 +401,7 @@ export class PercolatorClient {
     ]);
 
     return this.buildTransaction(
+      wallet.publicKey,
       new TransactionInstruction({ programId: this.programId, keys, data: ixData })
     );
   }
@@ -252,9 +414,22 @@ export class PercolatorClient {
     matcherProgram: PublicKey,
     matcherCtx: PublicKey,
   ): Promise<Transaction> {
-    const data = await this.refreshSlab();
-    const config = parseConfig(data);
-    const lpAccount = parseAccount(data, lpIdx);
+    return this.buildTransaction(
+      wallet.publicKey,
+      await this.buildTradeCpiIx(wallet, userIdx, lpIdx, size, matcherProgram, matcherCtx),
+    );
+  }
+
+  private async buildTradeCpiIx(
+    wallet: WalletAdapter,
+    userIdx: number,
+    lpIdx: number,
+    size: bigint,
+    matcherProgram: PublicKey,
+    matcherCtx: PublicKey,
+  ): Promise<TransactionInstruction> {
+    const config = await this.getMarketConfig();
+    const lpAccount = await this.getAccount(lpIdx);
     const [lpPda] = deriveLpPda(this.programId, this.slabPubkey, lpIdx);
 
     const ixData = encodeTradeCpi({ lpIdx, userIdx, size: size.toString() });
@@ -269,9 +444,7 @@ export class PercolatorClient {
       lpPda,
     ]);
 
-    return this.buildTransaction(
-      new TransactionInstruction({ programId: this.programId, keys, data: ixData })
-    );
+    return new TransactionInstruction({ programId: this.programId, keys, data: ixData });
   }
 
   async buildTradeNoCpiTx(
@@ -282,8 +455,7 @@ export class PercolatorClient {
     lpOwnerWallet?: WalletAdapter,
   ): Promise<Transaction> {
     const config = await this.getMarketConfig();
-    const data = await this.refreshSlab();
-    const lpAccount = parseAccount(data, lpIdx);
+    const lpAccount = await this.getAccount(lpIdx);
 
     const ixData = encodeTradeNoCpi({ lpIdx, userIdx, size: size.toString() });
     const keys = buildAccountMetas(ACCOUNTS_TRADE_NOCPI, [
@@ -295,6 +467,7 @@ export class PercolatorClient {
     ]);
 
     return this.buildTransaction(
+      wallet.publicKey,
       new TransactionInstruction({ programId: this.programId, keys, data: ixData })
     );
   }
@@ -311,6 +484,7 @@ export class PercolatorClient {
     ]);
 
     return this.buildTransaction(
+      wallet.publicKey,
       new TransactionInstruction({ programId: this.programId, keys, data: ixData })
     );
   }
@@ -333,10 +507,61 @@ export class PercolatorClient {
     ]);
 
     return this.buildTransaction(
+      wallet.publicKey,
       new TransactionInstruction({ programId: this.programId, keys, data: ixData })
     );
   }
 
+  // --------------------------------------------------------------------------
+  // Composite flows
+  // --------------------------------------------------------------------------
+
+  /**
+   * Open a position with one signature: create the collateral ATA if needed,
+   * wrap SOL (wSOL markets), deposit, then TradeCpi — atomically, so a failed
+   * trade never leaves collateral deposited without a position.
+   * Uses a v0 transaction with the market's lookup table when the legacy one
+   * is too large, and only splits into funding + trade as a last resort.
+   */
+  async buildOpenPositionTx(wallet: WalletAdapter, params: OpenPositionParams): Promise<OpenPositionPlan> {
+    const config = await this.getMarketConfig();
+    const payer = wallet.publicKey;
+
+    const funding: TransactionInstruction[] = [];
+    if (params.collateral > 0n) {
+      if (config.collateralMint.equals(NATIVE_MINT)) {
+        const wsolAta = await getAta(payer, NATIVE_MINT);
+        funding.push(createAtaIdempotentIx(payer, wsolAta, payer, NATIVE_MINT));
+        funding.push(...wrapSolIxs(payer, wsolAta, params.collateral));
+      }
+      funding.push(await this.buildDepositIx(wallet, params.userIdx, params.collateral));
+    }
+    const trade = await this.buildTradeCpiIx(
+      wallet, params.userIdx, params.lpIdx, params.size, params.matcherProgram, params.matcherCtx,
+    );
+
+    const instructions = [...funding, trade];
+    const budget = await sizeComputeBudget(this.connection, payer, instructions, this.feeLevel);
+    const combined = new Transaction().add(...budget.instructions, ...instructions);
+
+    if (serializedSize(payer, combined.instructions) <= PACKET_DATA_SIZE) {
+      return { atomic: true, transactions: [combined] };
+    }
+
+    const lookupTables = this.lookupTables.length > 0
+      ? this.lookupTables
+      : await this.loadLookupTable().then(t => (t ? [t] : []), () => []);
+    if (lookupTables.length > 0 && serializedSize(payer, combined.instructions, lookupTables) <= PACKET_DATA_SIZE) {
+      const versioned = await this.buildVersionedTransaction(wallet, combined, lookupTables);
+      return { atomic: true, transactions: [versioned] };
+    }
+
+    const transactions: Transaction[] = [];
+    if (funding.length > 0) transactions.push(await this.buildTransaction(payer, funding));
+    transactions.push(await this.buildTransaction(payer, trade));
+    return { atomic: false, transactions };
+  }
+
   // --------------------------------------------------------------------------
   // Market Creation (admin-level operations)
   // --------------------------------------------------------------------------
@@ -367,6 +592,7 @@ export class PercolatorClient {
     ]);
 
     return this.buildTransaction(
+      wallet.publicKey,
       new TransactionInstruction({ programId: this.programId, keys, data: ixData })
     );
   }
@@ -399,6 +625,7 @@ export class PercolatorClient {
     ]);
 
     return this.buildTransaction(
+      wallet.publicKey,
       new TransactionInstruction({ programId: this.programId, keys, data: ixData })
     );
   }
@@ -419,6 +646,7 @@ export class PercolatorClient {
     ]);
 
     return this.buildTransaction(
+      wallet.publicKey,
       new TransactionInstruction({ programId: this.programId, keys, data: ixData })
     );
   }
@@ -443,6 +671,7 @@ export class PercolatorClient {
     ]);
 
     return this.buildTransaction(
+      wallet.publicKey,
       new TransactionInstruction({ programId: this.programId, keys, data: ixData })
     );
   }
@@ -469,77 +698,384 @@ export class PercolatorClient {
     ]);
 
     return this.buildTransaction(
+      wallet.publicKey,
       new TransactionInstruction({ programId: this.programId, keys, data: ixData })
     );
   }
 
+  // --------------------------------------------------------------------------
+  // Market administration (admin only)
+  // --------------------------------------------------------------------------
+
+  /**
+   * Build UpdateConfig transaction. Funding and threshold fields not given
+   * keep their current on-chain values.
+   */
+  async buildUpdateConfigTx(wallet: WalletAdapter, updates: Partial<UpdateConfigArgs>): Promise<Transaction> {
+    await this.requireAdmin(wallet);
+    const config = await this.getMarketConfig();
+
+    const ixData = encodeUpdateConfig({
+      fundingHorizonSlots: config.fundingHorizonSlots,
+      fundingKBps: config.fundingKBps,
+      fundingInvScaleNotionalE6: config.fundingInvScaleNotionalE6,
+      fundingMaxPremiumBps: config.fundingMaxPremiumBps,
+      fundingMaxBpsPerSlot: config.fundingMaxBpsPerSlot,
+      threshFloor: config.threshFloor,
+      threshRiskBps: config.threshRiskBps,
+      threshUpdateIntervalSlots: config.threshUpdateIntervalSlots,
+      threshStepBps: config.threshStepBps,
+      threshAlphaBps: config.threshAlphaBps,
+      threshMin: config.threshMin,
+      threshMax: config.threshMax,
+      threshMinStep: config.threshMinStep,
+      ...updates,
+    });
+    return this.buildAdminTx(wallet, ACCOUNTS_UPDATE_CONFIG, ixData);
+  }
+
+  /**
+   * Build SetRiskThreshold transaction.
+   */
+  async buildSetRiskThresholdTx(wallet: WalletAdapter, newThreshold: bigint): Promise<Transaction> {
+    if (newThreshold < 0n) {
+      throw new Error(`Risk threshold must not be negative: ${newThreshold}`);
+    }
+    await this.requireAdmin(wallet);
+
+    const ixData = encodeSetRiskThreshold({ newThreshold: newThreshold.toString() });
+    return this.buildAdminTx(wallet, ACCOUNTS_SET_RISK_THRESHOLD, ixData);
+  }
+
+  /**
+   * Build UpdateAdmin transaction. The current admin loses all admin rights.
+   */
+  async buildUpdateAdminTx(wallet: WalletAdapter, newAdmin: PublicKey): Promise<Transaction> {
+    if (newAdmin.equals(PublicKey.default)) {
+      throw new Error('New admin must not be the default pubkey (the market would have no admin)');
+    }
+    await this.requireAdmin(wallet);
+
+    const ixData = encodeUpdateAdmin({ newAdmin });
+    return this.buildAdminTx(wallet, ACCOUNTS_UPDATE_ADMIN, ixData);
+  }
+
+  /**
+   * Build CloseSlab transaction. Returns the slab rent to the admin; every
+   * account must be closed first.
+   */
+  async buildCloseSlabTx(wallet: WalletAdapter): Promise<Transaction> {
+    await this.requireAdmin(wallet);
+    const engine = await this.getEngineState();
+    if (engine.numUsedAccounts > 0) {
+      throw new Error(`Slab still has ${engine.numUsedAccounts} open account(s)`);
+    }
+
+    return this.buildAdminTx(wallet, ACCOUNTS_CLOSE_SLAB, encodeCloseSlab());
+  }
+
+  /**
+   * Build SetMaintenanceFee transaction (fee per slot).
+   */
+  async buildSetMaintenanceFeeTx(wallet: WalletAdapter, newFee: bigint): Promise<Transaction> {
+    if (newFee < 0n) {
+      throw new Error(`Maintenance fee must not be negative: ${newFee}`);
+    }
+    await this.requireAdmin(wallet);
+
+    const ixData = encodeSetMaintenanceFee({ newFee: newFee.toString() });
+    return this.buildAdminTx(wallet, ACCOUNTS_SET_MAINTENANCE_FEE, ixData);
+  }
+
+  /**
+   * Build SetOraclePriceCap transaction. maxChangeE2bps is in 0.01 bps
+   * (1_000_000 = 100%); 0 disables the circuit breaker.
+   */
+  async buildSetOraclePriceCapTx(wallet: WalletAdapter, maxChangeE2bps: bigint): Promise<Transaction> {
+    if (maxChangeE2bps < 0n) {
+      throw new Error(`Oracle price cap must not be negative: ${maxChangeE2bps}`);
+    }
+    await this.requireAdmin(wallet);
+
+    const ixData = encodeSetOraclePriceCap({ maxChangeE2bps: maxChangeE2bps.toString() });
+    return this.buildAdminTx(wallet, ACCOUNTS_SET_ORACLE_PRICE_CAP, ixData);
+  }
+
+  /**
+   * Build ResolveMarket transaction. Settles at the admin oracle price, which
+   * must be pushed first; positions are then force-closed by the crank.
+   */
+  async buildResolveMarketTx(wallet: WalletAdapter): Promise<Transaction> {
+    const header = await this.requireAdmin(wallet);
+    if (header.resolved) {
+      throw new Error('Market is already resolved');
+    }
+    const config = await this.getMarketConfig();
+    if (config.authorityPriceE6 === 0n) {
+      throw new Error('No admin oracle price set; push one with PushOraclePrice before resolving');
+    }
+
+    return this.buildAdminTx(wallet, ACCOUNTS_RESOLVE_MARKET, encodeResolveMarket());
+  }
+
+  /**
+   * Build WithdrawInsurance transaction. Sends the insurance fund to the
+   * admin's collateral ATA once the market is resolved and all positions
+   * are closed.
+   */
+  async buildWithdrawInsuranceTx(wallet: WalletAdapter): Promise<Transaction> {
+    const header = await this.requireAdmin(wallet);
+    if (!header.resolved) {
+      throw new Error('Market must be resolved before withdrawing insurance');
+    }
+    const config = await this.getMarketConfig();
+    const adminAta = await getAta(wallet.publicKey, config.collateralMint);
+    const [vaultPda] = deriveVaultAuthority(this.programId, this.slabPubkey);
+
+    const keys = buildAccountMetas(ACCOUNTS_WITHDRAW_INSURANCE, [
+      wallet.publicKey,
+      this.slabPubkey,
+      adminAta,
+      config.vaultPubkey,
+      WELL_KNOWN.tokenProgram,
+      vaultPda,
+    ]);
+
+    return this.buildTransaction(
+      wallet.publicKey,
+      new TransactionInstruction({ programId: this.programId, keys, data: encodeWithdrawInsurance() })
+    );
+  }
+
+  // --------------------------------------------------------------------------
+  // Versioned transactions + address lookup tables
+  // --------------------------------------------------------------------------
+
+  /**
+   * Compile built transactions into one v0 transaction using the client's
+   * lookup tables. Several transactions are combined in order with a single
+   * compute budget, so e.g. wrap + deposit + trade fit in one signature.
+   */
+  async buildVersionedTransaction(
+    wallet: WalletAdapter,
+    tx: Transaction | Transaction[],
+    lookupTables: AddressLookupTableAccount[] = this.lookupTables,
+  ): Promise<VersionedTransaction> {
+    const instructions = Array.isArray(tx) ? combineTransactionInstructions(tx) : tx.instructions;
+    const { blockhash } = await this.connection.getLatestBlockhash('confirmed');
+    const message = new TransactionMessage({
+      payerKey: wallet.publicKey,
+      recentBlockhash: blockhash,
+      instructions,
+    }).compileToV0Message(lookupTables);
+    return new VersionedTransaction(message);
+  }
+
+  /**
+   * Fetch this market's lookup table (config.lookupTable) and use it for v0
+   * transactions. Null when no table address is known or it is unusable.
+   */
+  async loadLookupTable(): Promise<AddressLookupTableAccount | null> {
+    if (!this.lookupTable) return null;
+    const table = await fetchMarketLookupTable(this.connection, this.lookupTable, this.slabPubkey);
+    if (table) this.lookupTables = [table];
+    return table;
+  }
+
+  /**
+   * Transactions that create this market's lookup table, or extend an
+   * existing one with addresses it lacks (e.g. after a new LP joins).
+   * A new table's address is only known from the plan: persist
+   * plan.lookupTable next to the slab, as it cannot be looked up later.
+   */
+  async buildLookupTableTxs(
+    wallet: WalletAdapter,
+    existing: AddressLookupTableAccount | null = null,
+  ): Promise<LookupTablePlan> {
+    const info = await this.getMarketInfo();
+    const lps = info.accounts
+      .filter(a => a.account.kind === AccountKind.LP)
+      .map(a => ({ idx: a.idx, matcherProgram: a.account.matcherProgram, matcherContext: a.account.matcherContext }));
+    const addresses = marketLookupAddresses(this.programId, this.slabPubkey, info.config, lps);
+
+    const transactions: Transaction[] = [];
+    let lookupTable: PublicKey;
+    if (existing) {
+      lookupTable = existing.key;
+    } else {
+      const recentSlot = await this.connection.getSlot('finalized');
+      const create = buildCreateLookupTableIx(wallet.publicKey, wallet.publicKey, recentSlot);
+      lookupTable = create.lookupTable;
+      transactions.push(new Transaction().add(create.instruction));
+    }
+
+    const missing = missingLookupAddresses(existing, addresses);
+    for (const ix of buildExtendLookupTableIxs(lookupTable, wallet.publicKey, wallet.publicKey, missing)) {
+      transactions.push(new Transaction().add(ix));
+    }
+    return { lookupTable, transactions };
+  }
+
+  // --------------------------------------------------------------------------
+  // Simulation (preflight before the wallet prompt)
+  // --------------------------------------------------------------------------
+
+  /**
+   * Simulate a built transaction without signing it.
+   * Passing several transactions simulates them as one, in order, so a
+   * multi-step flow (wrap, deposit, trade) can be checked before the first
+   * prompt; their compute budget instructions are replaced by a single limit.
+   * A VersionedTransaction is simulated as compiled.
+   */
+  async simulateTransaction(
+    wallet: WalletAdapter,
+    tx: Transaction | Transaction[] | VersionedTransaction,
+    options: SimulateOptions = {},
+  ): Promise<SimulationResult> {
+    const { postState = true } = options;
+
+    let simulated: VersionedTransaction;
+    if (tx instanceof VersionedTransaction) {
+      simulated = tx;
+    } else {
+      const instructions = Array.isArray(tx) ? combineTransactionInstructions(tx) : tx.instructions;
+      simulated = new VersionedTransaction(new TransactionMessage({
+        payerKey: wallet.publicKey,
+        recentBlockhash: PublicKey.default.toBase58(),   // Replaced by the RPC
+        instructions,
+      }).compileToLegacyMessage());
+    }
+
+    const { context, value } = await this.connection.simulateTransaction(simulated, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      commitment: 'confirmed',
+      accounts: postState
+        ? { encoding: 'base64', addresses: [this.slabPubkey.toBase58()] }
+        : undefined,
+    });
+
+    const logs = value.logs ?? [];
+    const unitsConsumed = value.unitsConsumed ?? null;
+    if (value.err) {
+      return { ok: false, failure: classifyTxError(value.err, logs), unitsConsumed, logs, postState: null };
+    }
+
+    const slabAccount = value.accounts?.[0];
+    return {
+      ok: true,
+      unitsConsumed,
+      logs,
+      postState: slabAccount
+        ? parseSlabSnapshot(Buffer.from(slabAccount.data[0], 'base64'), context.slot)
+        : null,
+    };
+  }
+
   // --------------------------------------------------------------------------
   // Send (sign + send via wallet adapter)
   // --------------------------------------------------------------------------
 
+  /**
+   * Sign and send through the resilient sender (rebroadcast until expiry,
+   * optional re-sign). Unless preflight is disabled the transaction is
+   * simulated first, and a failing simulation is returned without prompting
+   * the wallet. VersionedTransactions get a fresh blockhash; their fee payer
+   * is fixed at compile time. Once confirmed, the slab is dropped from the
+   * shared cache so the next read sees the write.
+   */
   async sendTransaction(
     wallet: WalletAdapter,
-    tx: Transaction,
+    tx: Transaction | VersionedTransaction,
+    options: SendTxOptions = {},
   ): Promise<TxResult> {
-    try {
-      const latestBlockhash = await this.connection.getLatestBlockhash('confirmed');
-      tx.recentBlockhash = latestBlockhash.blockhash;
-      tx.feePayer = wallet.publicKey;
-
-      const signed = await wallet.signTransaction(tx);
-      const rawTx = signed.serialize();
-
-      const signature = await this.connection.sendRawTransaction(rawTx, {
-        skipPreflight: false,
-        preflightCommitment: 'confirmed',
-      });
+    const { preflight = true, resign = 0, onEvent } = options;
+    if (preflight) {
+      try {
+        const sim = await this.simulateTransaction(wallet, tx, { postState: false });
+        if (sim.failure) return failedTxResult('', sim.failure);
+      } catch (e: unknown) {
+        return failedTxResult('', classifyTxError(e));
+      }
+    }
 
-      const confirmation = await this.connection.confirmTransaction(
-        {
-          signature,
-          blockhash: latestBlockhash.blockhash,
-          lastValidBlockHeight: latestBlockhash.lastValidBlockHeight,
-        },
-        'confirmed'
-      );
-
-      if (confirmation.value.err) {
-        const txInfo = await this.connection.getTransaction(signature, {
-          commitment: 'confirmed',
-          maxSupportedTransactionVersion: 0,
-        });
-        const logs = txInfo?.meta?.logMessages ?? [];
-        const parsed = parseErrorFromLogs(logs);
-        return {
-          signature,
-          error: parsed ? `${parsed.name} (0x${parsed.code.toString(16)})` : JSON.stringify(confirmation.value.err),
-          hint: parsed?.hint,
-        };
+    const outcome = await sendWithRetry(this.connection, async blockhash => {
+      if (tx instanceof VersionedTransaction) {
+        tx.message.recentBlockhash = blockhash;
+      } else {
+        tx.recentBlockhash = blockhash;
+        tx.feePayer = wallet.publicKey;
       }
+      return wallet.signTransaction(tx);
+    }, { resign, onEvent });
 
-      return { signature, error: null };
-    } catch (e: unknown) {
-      return {
-        signature: '',
-        error: e instanceof Error ? e.message : String(e),
-      };
-    }
+    if (outcome.failure) return failedTxResult(outcome.signature, outcome.failure);
+    invalidateSlab(this.slabPubkey);
+    return { signature: outcome.signature, error: null };
   }
 
   // --------------------------------------------------------------------------
   // Helpers
   // --------------------------------------------------------------------------
 
-  private async buildTransaction(ix: TransactionInstruction): Promise<Transaction> {
+  /**
+   * Header of the slab, after checking the wallet is its admin. Admin
+   * instructions from anyone else fail on-chain; this fails before the prompt.
+   */
+  private async requireAdmin(wallet: WalletAdapter): Promise<SlabHeader> {
+    const header = parseHeader(await this.refreshHead());
+    if (!header.admin.equals(wallet.publicKey)) {
+      throw new Error(`Not the market admin: ${wallet.publicKey.toBase58()} (admin is ${header.admin.toBase58()})`);
+    }
+    return header;
+  }
+
+  // Admin instructions that only take the admin and the slab
+  private buildAdminTx(wallet: WalletAdapter, spec: readonly AccountSpec[], data: Buffer): Promise<Transaction> {
+    const keys = buildAccountMetas(spec, [wallet.publicKey, this.slabPubkey]);
+    return this.buildTransaction(
+      wallet.publicKey,
+      new TransactionInstruction({ programId: this.programId, keys, data })
+    );
+  }
+
+  /**
+   * Wrap instructions with a CU limit sized by simulation and a priority
+   * fee from the client's fee level.
+   */
+  private async buildTransaction(
+    payer: PublicKey,
+    ix: TransactionInstruction | TransactionInstruction[],
+  ): Promise<Transaction> {
+    const instructions = Array.isArray(ix) ? ix : [ix];
+    const budget = await sizeComputeBudget(this.connection, payer, instructions, this.feeLevel);
     const tx = new Transaction();
-    tx.add(ComputeBudgetProgram.setComputeUnitLimit({ units: 400_000 }));
-    tx.add(ix);
+    tx.add(...budget.instructions);
+    tx.add(...instructions);
     return tx;
   }
 }
 
-// Helper: absolute value for i128 bigint
-function abs128(val: bigint): bigint {
-  return val < 0n ? -val : val;
+// Wire size of a transaction with these instructions (legacy, or v0 with lookup
+// tables); Infinity when it cannot even be serialized
+function serializedSize(
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  lookupTables?: AddressLookupTableAccount[],
+): number {
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: PublicKey.default.toBase58(),
+    instructions,
+  });
+  try {
+    const compiled = lookupTables ? message.compileToV0Message(lookupTables) : message.compileToLegacyMessage();
+    return new VersionedTransaction(compiled).serialize().length;
+  } catch {
+    return Infinity;
+  }
 }
 
+function failedTxResult(signature: string, failure: TxErrorInfo): TxResult {
+  return { signature, error: failure.message, hint: failure.hint, failure };
+}
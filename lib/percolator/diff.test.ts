@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { SlabBuilder } from './solana/builder';
+import { diffSlabs } from './diff';
+
+const LOSS_CLOSE = { capital: 800_000_000n, positionSize: 0n, entryPrice: 0n };
+
+function before(): SlabBuilder {
+  return new SlabBuilder()
+    .account(1, { capital: 1_000_000_000n, positionSize: 5_000_000n, entryPrice: 1_000_000n })
+    .account(2, { capital: 1_000_000_000n, positionSize: -5_000_000n, entryPrice: 1_000_000n });
+}
+
+const kinds = (b: Buffer, a: Buffer, targets?: ReadonlySet<number>) =>
+  diffSlabs(b, a, targets).accounts.map(d => [d.idx, d.kind]);
+
+describe('diffSlabs liquidation classification', () => {
+  it('reports a close at a loss as closed without a liquidation', () => {
+    const after = new SlabBuilder().account(1, LOSS_CLOSE).account(2, LOSS_CLOSE).build();
+    expect(kinds(before().build(), after)).toEqual([[1, 'closed'], [2, 'closed']]);
+  });
+
+  it('labels closes at a loss liquidated when lifetimeLiquidations covers them', () => {
+    const after = new SlabBuilder()
+      .account(1, LOSS_CLOSE)
+      .account(2, { ...LOSS_CLOSE, capital: 1_100_000_000n })
+      .engine({ lifetimeLiquidations: 1n })
+      .build();
+    expect(kinds(before().build(), after)).toEqual([[1, 'liquidated'], [2, 'closed']]);
+  });
+
+  it('reports closed when the count cannot tell the closes apart', () => {
+    const after = new SlabBuilder()
+      .account(1, LOSS_CLOSE)
+      .account(2, LOSS_CLOSE)
+      .engine({ lifetimeLiquidations: 1n })
+      .build();
+    expect(kinds(before().build(), after)).toEqual([[1, 'closed'], [2, 'closed']]);
+  });
+
+  it('prefers LiquidateAtOracle targets over the count', () => {
+    const after = new SlabBuilder()
+      .account(1, LOSS_CLOSE)
+      .account(2, LOSS_CLOSE)
+      .engine({ lifetimeLiquidations: 1n })
+      .build();
+    expect(kinds(before().build(), after, new Set([2]))).toEqual([[1, 'closed'], [2, 'liquidated']]);
+  });
+});
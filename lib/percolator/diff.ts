@@ -0,0 +1,269 @@
+/**
+ * Slab snapshot diff — structured differences between two slab buffers.
+ * Reports changed config and engine fields, and classifies each account
+ * change (opened, closed, increased, reduced, flipped, liquidated, GC'd)
+ * so a crank or trade can be explained after the fact.
+ */
+import { PublicKey } from '@solana/web3.js';
+
+import { parseConfig, parseEngine, parseAllAccounts } from './solana/slab';
+import type { Account, EngineState, MarketConfig } from './solana/slab';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DiffValue = bigint | number | PublicKey;
+
+export interface FieldDiff {
+  field: string;                 // Nested fields are dotted, e.g. "insuranceFund.balance"
+  before: DiffValue;
+  after: DiffValue;
+}
+
+/**
+ * What happened to an account slot between two snapshots.
+ *
+ * - created:    slot newly allocated (InitUser / InitLP)
+ * - opened:     position went from zero to non-zero
+ * - increased:  position grew on the same side
+ * - reduced:    position shrank on the same side
+ * - flipped:    position crossed from long to short or back
+ * - closed:     position went to zero
+ * - liquidated: position went to zero in a liquidation (see LiquidationEvidence)
+ * - gc:         slot freed from the bitmap (CloseAccount or crank GC)
+ * - updated:    position unchanged, other fields changed (deposit, funding, fees)
+ */
+export type AccountChangeKind =
+  | 'created'
+  | 'opened'
+  | 'increased'
+  | 'reduced'
+  | 'flipped'
+  | 'closed'
+  | 'liquidated'
+  | 'gc'
+  | 'updated';
+
+export interface AccountDiff {
+  idx: number;
+  kind: AccountChangeKind;
+  before: Account | null;
+  after: Account | null;
+  fields: FieldDiff[];
+  positionDelta: bigint;
+  capitalDelta: bigint;
+  pnlDelta: bigint;
+}
+
+/**
+ * What ties a close to a liquidation. A capital drop alone can't tell a
+ * liquidation from a trade closed at a loss, so closes are only labelled
+ * liquidated against this evidence.
+ *
+ * - targets: LiquidateAtOracle targetIdx values, when the instructions are
+ *   known; these slots are liquidated and no others
+ * - count:   engine.lifetimeLiquidations delta over the same window (crank
+ *   liquidations included); when it covers every close that lost capital,
+ *   those closes are liquidated, otherwise none can be told apart
+ */
+export interface LiquidationEvidence {
+  targets?: ReadonlySet<number>;
+  count?: bigint;
+}
+
+export interface SlabDiff {
+  config: FieldDiff[];
+  engine: FieldDiff[];
+  accounts: AccountDiff[];       // Ordered by slot index
+}
+
+// ============================================================================
+// Diffing
+// ============================================================================
+
+/**
+ * Diff two slab buffers. Liquidations are counted from the engine's
+ * lifetimeLiquidations; pass the LiquidateAtOracle targets when the
+ * instructions in between are known.
+ */
+export function diffSlabs(before: Buffer, after: Buffer, liquidationTargets?: ReadonlySet<number>): SlabDiff {
+  const engineBefore = parseEngine(before);
+  const engineAfter = parseEngine(after);
+  return {
+    config: diffConfig(parseConfig(before), parseConfig(after)),
+    engine: diffEngine(engineBefore, engineAfter),
+    accounts: diffAccounts(toAccountMap(before), toAccountMap(after), {
+      targets: liquidationTargets,
+      count: engineAfter.lifetimeLiquidations - engineBefore.lifetimeLiquidations,
+    }),
+  };
+}
+
+export function diffConfig(before: MarketConfig, after: MarketConfig): FieldDiff[] {
+  return diffFields(before, after);
+}
+
+export function diffEngine(before: EngineState, after: EngineState): FieldDiff[] {
+  return diffFields(before, after);
+}
+
+/**
+ * Diff accounts keyed by slot index. A slot reused by a different account
+ * (new accountId) is reported as a GC followed by a creation.
+ */
+export function diffAccounts(
+  before: ReadonlyMap<number, Account>,
+  after: ReadonlyMap<number, Account>,
+  liquidations: LiquidationEvidence = {},
+): AccountDiff[] {
+  const indices = [...new Set([...before.keys(), ...after.keys()])].sort((a, b) => a - b);
+  const liquidated = findLiquidatedSlots(before, after, liquidations);
+  const diffs: AccountDiff[] = [];
+
+  for (const idx of indices) {
+    const prev = before.get(idx) ?? null;
+    const next = after.get(idx) ?? null;
+
+    if (prev && next && prev.accountId !== next.accountId) {
+      diffs.push(accountDiff(idx, 'gc', prev, null));
+      diffs.push(accountDiff(idx, 'created', null, next));
+      continue;
+    }
+
+    const kind = classifyAccountChange(prev, next, liquidated.has(idx));
+    if (kind) diffs.push(accountDiff(idx, kind, prev, next));
+  }
+  return diffs;
+}
+
+/**
+ * Slots whose close the evidence attributes to a liquidation.
+ */
+export function findLiquidatedSlots(
+  before: ReadonlyMap<number, Account>,
+  after: ReadonlyMap<number, Account>,
+  evidence: LiquidationEvidence,
+): Set<number> {
+  if (evidence.targets) return new Set(evidence.targets);
+  const count = evidence.count ?? 0n;
+  if (count <= 0n) return new Set();
+
+  const closedAtLoss: number[] = [];
+  for (const [idx, next] of after) {
+    const prev = before.get(idx);
+    if (!prev || prev.accountId !== next.accountId) continue;
+    if (prev.positionSize !== 0n && next.positionSize === 0n && next.capital < prev.capital) {
+      closedAtLoss.push(idx);
+    }
+  }
+  return BigInt(closedAtLoss.length) <= count ? new Set(closedAtLoss) : new Set();
+}
+
+/**
+ * Classify the change to one account slot, or null if nothing changed.
+ * A close is only 'liquidated' when the caller attributes it to a
+ * liquidation (findLiquidatedSlots); otherwise it is 'closed'.
+ */
+export function classifyAccountChange(
+  before: Account | null,
+  after: Account | null,
+  liquidated: boolean = false,
+): AccountChangeKind | null {
+  if (!before && !after) return null;
+  if (!before) return 'created';
+  if (!after) return 'gc';
+
+  const prevPos = before.positionSize;
+  const nextPos = after.positionSize;
+
+  if (prevPos === nextPos) {
+    return diffFields(before, after).length > 0 ? 'updated' : null;
+  }
+  if (prevPos === 0n) return 'opened';
+  if (nextPos === 0n) return liquidated ? 'liquidated' : 'closed';
+  if ((prevPos > 0n) !== (nextPos > 0n)) return 'flipped';
+  return abs(nextPos) > abs(prevPos) ? 'increased' : 'reduced';
+}
+
+// ============================================================================
+// Summaries
+// ============================================================================
+
+/**
+ * One human-readable line per account change, e.g. for a tx detail view.
+ */
+export function summarizeSlabDiff(diff: SlabDiff): string[] {
+  return diff.accounts.map(d => {
+    const pos = (d.after ?? d.before)!.positionSize;
+    const side = pos > 0n ? 'long' : pos < 0n ? 'short' : 'flat';
+    switch (d.kind) {
+      case 'created':
+        return `#${d.idx} created (capital ${d.capitalDelta})`;
+      case 'gc':
+        return `#${d.idx} freed`;
+      case 'opened':
+      case 'increased':
+      case 'reduced':
+      case 'flipped':
+        return `#${d.idx} ${d.kind} → ${side} ${abs(pos)} (Δ ${d.positionDelta})`;
+      case 'closed':
+      case 'liquidated':
+        return `#${d.idx} ${d.kind} (capital Δ ${d.capitalDelta}, pnl Δ ${d.pnlDelta})`;
+      case 'updated':
+        return `#${d.idx} updated: ${d.fields.map(f => f.field).join(', ')}`;
+    }
+  });
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toAccountMap(data: Buffer): Map<number, Account> {
+  return new Map(parseAllAccounts(data).map(({ idx, account }) => [idx, account]));
+}
+
+function accountDiff(
+  idx: number,
+  kind: AccountChangeKind,
+  before: Account | null,
+  after: Account | null,
+): AccountDiff {
+  const field = (a: Account | null, key: 'positionSize' | 'capital' | 'pnl') => a ? a[key] : 0n;
+  return {
+    idx,
+    kind,
+    before,
+    after,
+    fields: before && after ? diffFields(before, after) : [],
+    positionDelta: field(after, 'positionSize') - field(before, 'positionSize'),
+    capitalDelta: field(after, 'capital') - field(before, 'capital'),
+    pnlDelta: field(after, 'pnl') - field(before, 'pnl'),
+  };
+}
+
+/**
+ * Compare two parsed structs field by field. Nested objects (other than
+ * PublicKey) are flattened with dotted names.
+ */
+function diffFields<T extends object>(before: T, after: T, prefix: string = ''): FieldDiff[] {
+  const out: FieldDiff[] = [];
+  for (const key of Object.keys(before) as (keyof T & string)[]) {
+    const a = before[key];
+    const b = after[key];
+    const name = prefix + key;
+    if (a instanceof PublicKey && b instanceof PublicKey) {
+      if (!a.equals(b)) out.push({ field: name, before: a, after: b });
+    } else if (typeof a === 'object' && a !== null && typeof b === 'object' && b !== null) {
+      out.push(...diffFields(a, b, `${name}.`));
+    } else if (a !== b) {
+      out.push({ field: name, before: a as DiffValue, after: b as DiffValue });
+    }
+  }
+  return out;
+}
+
+function abs(val: bigint): bigint {
+  return val < 0n ? -val : val;
+}
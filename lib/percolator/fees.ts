@@ -0,0 +1,215 @@
+/**
+ * Fee strategy — compute unit limits sized by simulation and priority fees
+ * from recent prioritization fees on the accounts a transaction writes.
+ */
+import {
+  ComputeBudgetInstruction,
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+
+// ============================================================================
+// Policies
+// ============================================================================
+
+export type FeeLevel = 'economy' | 'normal' | 'fast';
+
+export interface FeePolicy {
+  percentile: number;            // Of recent prioritization fees, 0-100
+  minMicroLamports: number;      // Floor per CU when recent fees are near zero
+  cuMarginBps: number;           // Headroom over simulated compute units
+}
+
+export const FEE_POLICIES: Record<FeeLevel, FeePolicy> = {
+  economy: { percentile: 25, minMicroLamports: 1_000, cuMarginBps: 1_000 },
+  normal: { percentile: 50, minMicroLamports: 10_000, cuMarginBps: 1_500 },
+  fast: { percentile: 90, minMicroLamports: 100_000, cuMarginBps: 2_500 },
+};
+
+export const DEFAULT_FEE_LEVEL: FeeLevel = 'normal';
+
+export const MAX_COMPUTE_UNITS = 1_400_000;
+export const DEFAULT_COMPUTE_UNITS = 400_000;         // Used when simulation gives no estimate
+export const MAX_PRIORITY_FEE_MICRO_LAMPORTS = 2_000_000;
+export const UNBUDGETED_INSTRUCTION_UNITS = 50_000;  // System/token instructions in txs without a limit
+
+// ============================================================================
+// Estimation
+// ============================================================================
+
+/**
+ * Priority fee in micro-lamports per CU: the policy's percentile of recent
+ * fees paid by transactions that locked any of the given accounts.
+ */
+export async function estimatePriorityFee(
+  connection: Connection,
+  writableAccounts: PublicKey[],
+  level: FeeLevel = DEFAULT_FEE_LEVEL,
+): Promise<number> {
+  const policy = FEE_POLICIES[level];
+  try {
+    const recent = await connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: writableAccounts,
+    });
+    const fee = percentile(recent.map(f => f.prioritizationFee), policy.percentile);
+    return Math.min(Math.max(fee, policy.minMicroLamports), MAX_PRIORITY_FEE_MICRO_LAMPORTS);
+  } catch {
+    return policy.minMicroLamports;
+  }
+}
+
+/**
+ * Compute units the instructions consume in simulation, or null when the
+ * simulation fails or the RPC does not report units.
+ */
+export async function estimateComputeUnits(
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+): Promise<number | null> {
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: PublicKey.default.toBase58(),   // Replaced by the RPC
+    instructions: [ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }), ...instructions],
+  }).compileToLegacyMessage();
+
+  try {
+    const { value } = await connection.simulateTransaction(new VersionedTransaction(message), {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      commitment: 'confirmed',
+    });
+    if (value.err || !value.unitsConsumed) return null;
+    return value.unitsConsumed;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * CU limit for a simulated unit count with the policy's headroom.
+ */
+export function computeUnitLimit(unitsConsumed: number | null, level: FeeLevel = DEFAULT_FEE_LEVEL): number {
+  if (unitsConsumed === null) return DEFAULT_COMPUTE_UNITS;
+  const withMargin = Math.ceil(unitsConsumed * (10_000 + FEE_POLICIES[level].cuMarginBps) / 10_000);
+  return Math.min(withMargin, MAX_COMPUTE_UNITS);
+}
+
+export interface ComputeBudget {
+  instructions: TransactionInstruction[];   // setComputeUnitLimit + setComputeUnitPrice
+  unitsConsumed: number | null;             // From the sizing simulation; null when it failed
+}
+
+/**
+ * Size the compute budget for the given instructions. The sizing simulation
+ * doubles as a preflight: a non-null unitsConsumed means the instructions
+ * succeeded against current state. Writable non-signer accounts (slab,
+ * vault, token accounts) select which recent fees the price is based on.
+ */
+export async function sizeComputeBudget(
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  level: FeeLevel = DEFAULT_FEE_LEVEL,
+): Promise<ComputeBudget> {
+  const writable = uniqueKeys(
+    instructions.flatMap(ix => ix.keys.filter(k => k.isWritable && !k.isSigner).map(k => k.pubkey)),
+  );
+  const [units, microLamports] = await Promise.all([
+    estimateComputeUnits(connection, payer, instructions),
+    estimatePriorityFee(connection, writable, level),
+  ]);
+  return {
+    instructions: [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit(units, level) }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports }),
+    ],
+    unitsConsumed: units,
+  };
+}
+
+/**
+ * setComputeUnitLimit + setComputeUnitPrice for the given instructions.
+ */
+export async function buildComputeBudgetInstructions(
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  level: FeeLevel = DEFAULT_FEE_LEVEL,
+): Promise<TransactionInstruction[]> {
+  return (await sizeComputeBudget(connection, payer, instructions, level)).instructions;
+}
+
+/**
+ * Concatenate several transactions' instructions into one, replacing their
+ * compute budget instructions with a single limit (the sum of theirs) and
+ * price (the highest). Two limit instructions would fail the transaction.
+ */
+export function combineTransactionInstructions(txs: Transaction[]): TransactionInstruction[] {
+  const instructions: TransactionInstruction[] = [];
+  let units = 0;
+  let microLamports = 0n;
+
+  for (const tx of txs) {
+    let limit: number | null = null;
+    let count = 0;
+    for (const ix of tx.instructions) {
+      if (!ix.programId.equals(ComputeBudgetProgram.programId)) {
+        instructions.push(ix);
+        count++;
+        continue;
+      }
+      const type = ComputeBudgetInstruction.decodeInstructionType(ix);
+      if (type === 'SetComputeUnitLimit') {
+        limit = ComputeBudgetInstruction.decodeSetComputeUnitLimit(ix).units;
+      } else if (type === 'SetComputeUnitPrice') {
+        const price = BigInt(ComputeBudgetInstruction.decodeSetComputeUnitPrice(ix).microLamports);
+        if (price > microLamports) microLamports = price;
+      }
+    }
+    units += limit ?? count * UNBUDGETED_INSTRUCTION_UNITS;
+  }
+
+  const budget = [ComputeBudgetProgram.setComputeUnitLimit({ units: Math.min(units, MAX_COMPUTE_UNITS) })];
+  if (microLamports > 0n) budget.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+  return [...budget, ...instructions];
+}
+
+/**
+ * Total priority fee in SOL for a transaction of the given CU budget, in
+ * the form PumpPortal's `priorityFee` field expects.
+ */
+export async function estimatePriorityFeeSol(
+  connection: Connection,
+  writableAccounts: PublicKey[],
+  computeUnits: number,
+  level: FeeLevel = DEFAULT_FEE_LEVEL,
+): Promise<number> {
+  const microLamports = await estimatePriorityFee(connection, writableAccounts, level);
+  return (microLamports * computeUnits) / 1_000_000 / 1_000_000_000;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor((sorted.length - 1) * p / 100)];
+}
+
+function uniqueKeys(keys: PublicKey[]): PublicKey[] {
+  const seen = new Set<string>();
+  return keys.filter(k => {
+    const key = k.toBase58();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,117 @@
+/**
+ * Funding math — inventory-based funding as the engine computes it.
+ * The rate is set at each crank from the LP's net position and applies
+ * per slot until the next one; the global funding index accumulates
+ * rate * price per slot, and each account settles the gap between its
+ * own index and the global one. Positive rates are paid by longs.
+ */
+import type { Account, EngineState, MarketConfig } from './solana/slab';
+import { PRICE_SCALE, BPS_DENOMINATOR, absBigint, engineMarkPrice } from './risk';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FundingRate {
+  bpsPerSlot: bigint;            // As stored on-chain; positive = longs pay shorts
+  bpsPerHour: number;
+  annualizedBps: number;         // Simple, not compounded
+}
+
+export interface FundingSummary {
+  current: FundingRate;          // In force since the last crank
+  projected: FundingRate;        // What the next crank sets from LP inventory at the mark
+  lastFundingSlot: bigint;
+  netLpPos: bigint;              // Positive = LPs net long (users net short)
+}
+
+/** Target slot time; wall-clock conversions are estimates */
+export const SLOT_DURATION_MS = 400;
+export const SLOTS_PER_HOUR = 9_000n;
+export const SLOTS_PER_YEAR = SLOTS_PER_HOUR * 24n * 365n;
+
+// ============================================================================
+// Rates
+// ============================================================================
+
+/**
+ * Express a per-slot rate per hour and per year.
+ */
+export function fundingRateFromBpsPerSlot(bpsPerSlot: bigint): FundingRate {
+  return {
+    bpsPerSlot,
+    bpsPerHour: Number(bpsPerSlot * SLOTS_PER_HOUR),
+    annualizedBps: Number(bpsPerSlot * SLOTS_PER_YEAR),
+  };
+}
+
+/**
+ * Rate the next crank will set, from the LP's net position at a price:
+ * premium = |netLpPos| * price / 1e6 * kBps / invScaleNotional, capped at
+ * maxPremiumBps, signed by the LP's side, spread over the horizon and
+ * clamped to maxBpsPerSlot. 0 when disabled (no horizon) or unpriced.
+ */
+export function projectFundingRate(
+  config: MarketConfig,
+  engine: EngineState,
+  priceE6: bigint = engineMarkPrice(config),
+): bigint {
+  const netLpPos = engine.netLpPos;
+  if (netLpPos === 0n || priceE6 === 0n || config.fundingHorizonSlots === 0n) return 0n;
+
+  const notionalE6 = absBigint(netLpPos) * priceE6 / PRICE_SCALE;
+  const scale = config.fundingInvScaleNotionalE6 > 0n ? config.fundingInvScaleNotionalE6 : 1n;
+  let premiumBps = notionalE6 * config.fundingKBps / scale;
+  const maxPremium = absBigint(config.fundingMaxPremiumBps);
+  if (premiumBps > maxPremium) premiumBps = maxPremium;
+
+  const signed = netLpPos > 0n ? premiumBps : -premiumBps;
+  const perSlot = signed / config.fundingHorizonSlots;
+  const maxPerSlot = absBigint(config.fundingMaxBpsPerSlot);
+  if (perSlot > maxPerSlot) return maxPerSlot;
+  if (perSlot < -maxPerSlot) return -maxPerSlot;
+  return perSlot;
+}
+
+/**
+ * Current and projected rates for a market.
+ */
+export function getFundingSummary(config: MarketConfig, engine: EngineState): FundingSummary {
+  return {
+    current: fundingRateFromBpsPerSlot(engine.fundingRateBpsPerSlotLast),
+    projected: fundingRateFromBpsPerSlot(projectFundingRate(config, engine)),
+    lastFundingSlot: engine.lastFundingSlot,
+    netLpPos: engine.netLpPos,
+  };
+}
+
+// ============================================================================
+// Index and accrual
+// ============================================================================
+
+/**
+ * Global funding index at a slot: the stored index plus what the current
+ * rate accrues from lastFundingSlot, rate * price * slots / 1e4.
+ */
+export function fundingIndexAt(
+  engine: EngineState,
+  priceE6: bigint,
+  slot: bigint = engine.currentSlot,
+): bigint {
+  const elapsed = slot > engine.lastFundingSlot ? slot - engine.lastFundingSlot : 0n;
+  return engine.fundingIndexQpbE6
+    + engine.fundingRateBpsPerSlotLast * priceE6 * elapsed / BPS_DENOMINATOR;
+}
+
+/**
+ * Funding an account has accrued but not yet settled into its PnL, as a
+ * PnL change (negative = owed). Payments round up against the payer, as
+ * the engine does when it settles.
+ */
+export function accruedFunding(account: Account, globalIndexE6: bigint): bigint {
+  const delta = globalIndexE6 - account.fundingIndex;
+  if (delta === 0n || account.positionSize === 0n) return 0n;
+  const raw = account.positionSize * delta;
+  const payment = raw > 0n ? (raw + PRICE_SCALE - 1n) / PRICE_SCALE : raw / PRICE_SCALE;
+  return -payment;
+}
@@ -6,9 +6,10 @@
 export { encodeInitUser, encodeInitLP, encodeDepositCollateral, encodeWithdrawCollateral, 
          encodeTradeCpi, encodeTradeNoCpi, encodeKeeperCrank, encodeLiquidateAtOracle,
          encodeCloseAccount, encodeTopUpInsurance, encodeInitMarket,
-         IX_TAG } from './abi/instructions';
+         IX_TAG, decodeInstruction, decodeTransactionInstruction, ACCOUNTS_BY_IX } from './abi/instructions';
 export type { InitUserArgs, InitLPArgs, DepositCollateralArgs, WithdrawCollateralArgs,
-              TradeCpiArgs, TradeNoCpiArgs, KeeperCrankArgs, InitMarketArgs } from './abi/instructions';
+              TradeCpiArgs, TradeNoCpiArgs, KeeperCrankArgs, InitMarketArgs,
+              IxName, Decoded, DecodedArgsMap, DecodedInstruction } from './abi/instructions';
 
 export { buildAccountMetas, WELL_KNOWN,
          ACCOUNTS_INIT_USER, ACCOUNTS_INIT_LP, ACCOUNTS_DEPOSIT_COLLATERAL,
@@ -17,11 +18,66 @@ export { buildAccountMetas, WELL_KNOWN,
          ACCOUNTS_INIT_MARKET } from './abi/accounts';
 
 export { deriveVaultAuthority, deriveLpPda } from './solana/pda';
-export { fetchSlab, parseHeader, parseConfig, parseEngine, parseParams,
+export { fetchSlab, fetchSlabRange, fetchSlabHead, fetchSlabUsed, fetchAccount, parseHeader, parseConfig, parseEngine, parseParams,
          parseUsedIndices, parseAccount, parseAllAccounts, isAccountUsed,
-         maxAccountIndex, AccountKind } from './solana/slab';
-export type { SlabHeader, MarketConfig, EngineState, RiskParams, Account, InsuranceFund } from './solana/slab';
+         maxAccountIndex, AccountKind, SLAB_LAYOUTS, CURRENT_SLAB_LAYOUT, getSlabLayout,
+         detectSlabLayout, slabRegions, SLAB_HEADER_SCHEMA, SLAB_MAGIC,
+         SLAB_SIZE } from './solana/slab';
+export type { SlabHeader, MarketConfig, EngineState, RiskParams, Account, InsuranceFund,
+              SlabLayout, EngineOffsetKey } from './solana/slab';
+export { SlabBuilder } from './solana/builder';
+export type { SlabHeaderInput } from './solana/builder';
+export { defineStruct, struct, pad, u8, u16, u32, u64, i64, u128, i128, pubkey } from './solana/schema';
+export type { StructSchema, StructValue, SchemaEntry, ScalarField, StructField, Padding,
+              FieldType, OffsetRow } from './solana/schema';
 
 export { getAta } from './solana/ata';
-export { parseErrorFromLogs, decodeError, getErrorName, getErrorHint } from './abi/errors';
+export { marketLookupAddresses, missingLookupAddresses, buildCreateLookupTableIx, buildExtendLookupTableIxs,
+         fetchMarketLookupTable } from './solana/alt';
+export type { MarketLookupLp } from './solana/alt';
+export { parseErrorFromLogs, decodeError, getErrorName, getErrorHint, classifyTxError } from './abi/errors';
+export type { TxErrorInfo, TxErrorCategory, RecoveryAction } from './abi/errors';
 
+
+export { subscribeSlab, parseSlabSnapshot, diffSnapshots, createMemorySlabSource,
+         WATCHED_ENGINE_FIELDS, WATCHED_ACCOUNT_FIELDS } from './subscribe';
+export type { SlabSubscriptionSource, SlabDelta, SlabDeltaType, SlabSnapshot, SlabUpdate,
+              SlabUpdateHandler, SubscribeSlabOptions, EngineDeltaField, AccountDeltaField,
+              FieldChange, MemorySlabSource } from './subscribe';
+
+export { diffSlabs, diffConfig, diffEngine, diffAccounts, classifyAccountChange,
+         findLiquidatedSlots, summarizeSlabDiff } from './diff';
+export type { SlabDiff, AccountDiff, AccountChangeKind, FieldDiff, DiffValue,
+              LiquidationEvidence } from './diff';
+
+export { checkSlabInvariants } from './invariants';
+export type { SlabInvariant, InvariantViolation, SlabInvariantReport } from './invariants';
+
+export { computeMargin, accountEquity, markToMarketPnl, positionNotional, marginRequirement, engineMarkPrice,
+         leverageFromBps, absBigint, estimateLiquidationPrice, invertPriceE6, toMarketPriceE6,
+         computeHaircut, haircutBps, realizablePnl, PRICE_SCALE, BPS_DENOMINATOR, INVERT_SCALE } from './risk';
+export type { MarginSummary, LiquidationEstimate, PositionTerms, HaircutRatio } from './risk';
+
+export { fundingRateFromBpsPerSlot, projectFundingRate, getFundingSummary, fundingIndexAt, accruedFunding,
+         SLOT_DURATION_MS, SLOTS_PER_HOUR, SLOTS_PER_YEAR } from './funding';
+export type { FundingRate, FundingSummary } from './funding';
+
+export { computeWarmup, slotToDate } from './warmup';
+export type { WarmupSchedule, WarmupMilestone } from './warmup';
+
+export { estimatePriorityFee, estimatePriorityFeeSol, estimateComputeUnits, computeUnitLimit,
+         sizeComputeBudget, buildComputeBudgetInstructions, combineTransactionInstructions,
+         FEE_POLICIES, DEFAULT_FEE_LEVEL, MAX_COMPUTE_UNITS, DEFAULT_COMPUTE_UNITS,
+         MAX_PRIORITY_FEE_MICRO_LAMPORTS, UNBUDGETED_INSTRUCTION_UNITS } from './fees';
+export type { FeeLevel, FeePolicy, ComputeBudget } from './fees';
+
+export { readSlabCached, invalidateSlab, clearSlabCache, DEFAULT_SLAB_MAX_AGE_MS } from './cache';
+export type { SlabReadKind } from './cache';
+
+export { sendWithRetry, TX_STAGE_LABELS } from './sender';
+export type { TxLifecycleStage, TxLifecycleEvent, TxLifecycleHandler, TxSigner, SendPipelineOptions,
+              SendOutcome } from './sender';
+
+export { fetchSlabHistoryPage, indexSlabHistory, decodeSlabTransaction, parseLogLine } from './indexer';
+export type { IndexerConnection, IndexerCursor, SlabEvent, SlabEventType, SlabHistoryPage,
+              IndexSlabOptions, ProgramLogEntry } from './indexer';
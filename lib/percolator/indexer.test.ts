@@ -0,0 +1,316 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  type ConfirmedSignatureInfo,
+  type VersionedTransactionResponse,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+
+import {
+  decodeSlabTransaction,
+  indexSlabHistory,
+  fetchSlabHistoryPage,
+  parseLogLine,
+  type IndexerConnection,
+  type SlabEventType,
+} from './indexer';
+import {
+  ACCOUNTS_BY_IX,
+  IX_TAG,
+  encodeInitMarket,
+  encodeInitUser,
+  encodeInitLP,
+  encodeDepositCollateral,
+  encodeWithdrawCollateral,
+  encodeKeeperCrank,
+  encodeTradeNoCpi,
+  encodeLiquidateAtOracle,
+  encodeCloseAccount,
+  encodeTopUpInsurance,
+  encodeTradeCpi,
+  encodeSetRiskThreshold,
+  encodeUpdateAdmin,
+  encodeCloseSlab,
+  encodeUpdateConfig,
+  encodeSetMaintenanceFee,
+  encodeSetOracleAuthority,
+  encodePushOraclePrice,
+  encodeSetOraclePriceCap,
+  encodeResolveMarket,
+  encodeWithdrawInsurance,
+  type IxName,
+} from './abi/instructions';
+
+const key = (seed: number) => new PublicKey(Buffer.alloc(32, seed));
+
+const PROGRAM = key(200);
+const SLAB = key(201);
+const PAYER = key(202);
+const MATCHER = key(203);
+const P = PROGRAM.toBase58();
+
+const ENCODED: Record<IxName, Buffer> = {
+  InitMarket: encodeInitMarket({
+    admin: key(1), collateralMint: key(2), indexFeedId: '00'.repeat(32), maxStalenessSecs: 60n,
+    confFilterBps: 0, invert: 0, unitScale: 0, initialMarkPriceE6: 1n, warmupPeriodSlots: 100n,
+    maintenanceMarginBps: 500n, initialMarginBps: 1000n, tradingFeeBps: 10n, maxAccounts: 4096n,
+    newAccountFee: 0n, riskReductionThreshold: 0n, maintenanceFeePerSlot: 0n, maxCrankStalenessSlots: 200n,
+    liquidationFeeBps: 100n, liquidationFeeCap: 0n, liquidationBufferBps: 50n, minLiquidationAbs: 0n,
+  }),
+  InitUser: encodeInitUser({ feePayment: 1_000_000n }),
+  InitLP: encodeInitLP({ matcherProgram: MATCHER, matcherContext: key(4), feePayment: 1n }),
+  DepositCollateral: encodeDepositCollateral({ userIdx: 3, amount: 10n }),
+  WithdrawCollateral: encodeWithdrawCollateral({ userIdx: 3, amount: 5n }),
+  KeeperCrank: encodeKeeperCrank({ callerIdx: 0, allowPanic: false }),
+  TradeNoCpi: encodeTradeNoCpi({ lpIdx: 0, userIdx: 3, size: 7n }),
+  LiquidateAtOracle: encodeLiquidateAtOracle({ targetIdx: 3 }),
+  CloseAccount: encodeCloseAccount({ userIdx: 3 }),
+  TopUpInsurance: encodeTopUpInsurance({ amount: 9n }),
+  TradeCpi: encodeTradeCpi({ lpIdx: 0, userIdx: 3, size: -7n }),
+  SetRiskThreshold: encodeSetRiskThreshold({ newThreshold: 1n }),
+  UpdateAdmin: encodeUpdateAdmin({ newAdmin: key(5) }),
+  CloseSlab: encodeCloseSlab(),
+  UpdateConfig: encodeUpdateConfig({
+    fundingHorizonSlots: 1n, fundingKBps: 1n, fundingInvScaleNotionalE6: 1n, fundingMaxPremiumBps: 1n,
+    fundingMaxBpsPerSlot: 1n, threshFloor: 1n, threshRiskBps: 1n, threshUpdateIntervalSlots: 1n,
+    threshStepBps: 1n, threshAlphaBps: 1n, threshMin: 1n, threshMax: 1n, threshMinStep: 1n,
+  }),
+  SetMaintenanceFee: encodeSetMaintenanceFee({ newFee: 1n }),
+  SetOracleAuthority: encodeSetOracleAuthority({ newAuthority: key(6) }),
+  PushOraclePrice: encodePushOraclePrice({ priceE6: 2_000_000n, timestamp: 1_700_000_000n }),
+  SetOraclePriceCap: encodeSetOraclePriceCap({ maxChangeE2bps: 10_000n }),
+  ResolveMarket: encodeResolveMarket(),
+  WithdrawInsurance: encodeWithdrawInsurance(),
+};
+
+const EXPECTED_TYPE: Record<IxName, SlabEventType> = {
+  InitMarket: 'AdminChange',
+  InitUser: 'AccountInit',
+  InitLP: 'AccountInit',
+  DepositCollateral: 'Deposit',
+  WithdrawCollateral: 'Withdraw',
+  KeeperCrank: 'Crank',
+  TradeNoCpi: 'Trade',
+  LiquidateAtOracle: 'Liquidation',
+  CloseAccount: 'Close',
+  TopUpInsurance: 'InsuranceTopUp',
+  TradeCpi: 'Trade',
+  SetRiskThreshold: 'AdminChange',
+  UpdateAdmin: 'AdminChange',
+  CloseSlab: 'AdminChange',
+  UpdateConfig: 'AdminChange',
+  SetMaintenanceFee: 'AdminChange',
+  SetOracleAuthority: 'AdminChange',
+  PushOraclePrice: 'OraclePush',
+  SetOraclePriceCap: 'AdminChange',
+  ResolveMarket: 'AdminChange',
+  WithdrawInsurance: 'AdminChange',
+};
+
+// A Percolator instruction with the spec's accounts, slab in its slot
+function percolatorIx(name: IxName, slab: PublicKey = SLAB): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: PROGRAM,
+    keys: ACCOUNTS_BY_IX[name].map((s, i) => ({
+      pubkey: s.name === 'slab' ? slab : key(10 + i),
+      isSigner: false,
+      isWritable: s.writable,
+    })),
+    data: ENCODED[name],
+  });
+}
+
+function topLevelLogs(count: number): string[] {
+  const logs: string[] = [];
+  for (let i = 0; i < count; i++) {
+    logs.push(`Program ${P} invoke [1]`, `Program log: ix ${i}`, `Program ${P} consumed 1200 of 200000 compute units`, `Program ${P} success`);
+  }
+  return logs;
+}
+
+function txResponse(
+  instructions: TransactionInstruction[],
+  meta: { logs?: string[]; inner?: { index: number; instructions: { programIdIndex: number; accounts: number[]; data: string }[] }[] } = {},
+  slot = 100,
+): VersionedTransactionResponse {
+  const message = new TransactionMessage({
+    payerKey: PAYER,
+    recentBlockhash: PublicKey.default.toBase58(),
+    instructions,
+  }).compileToV0Message();
+  return {
+    slot,
+    blockTime: 1_700_000_000,
+    version: 0,
+    transaction: { message, signatures: ['sig'] },
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: [],
+      postBalances: [],
+      logMessages: meta.logs ?? topLevelLogs(instructions.length),
+      innerInstructions: meta.inner ?? [],
+      loadedAddresses: { writable: [], readonly: [] },
+    },
+  } as unknown as VersionedTransactionResponse;
+}
+
+// Serves `history` newest first, honouring before / until / limit
+function stubConnection(history: { sig: string; err?: boolean; tx: VersionedTransactionResponse }[]) {
+  const calls = { signatures: 0, transactions: [] as string[] };
+  const connection: IndexerConnection = {
+    async getSignaturesForAddress(_address, options = {}) {
+      calls.signatures++;
+      let start = 0;
+      if (options.before) start = history.findIndex(h => h.sig === options.before) + 1;
+      const out: ConfirmedSignatureInfo[] = [];
+      for (const h of history.slice(start)) {
+        if (h.sig === options.until || out.length === (options.limit ?? 1000)) break;
+        out.push({ signature: h.sig, slot: h.tx.slot, err: h.err ? { InstructionError: [0, 'Custom'] } : null, memo: null });
+      }
+      return out;
+    },
+    async getTransaction(signature) {
+      calls.transactions.push(signature);
+      return history.find(h => h.sig === signature)?.tx ?? null;
+    },
+  };
+  return { connection, calls };
+}
+
+describe('decodeSlabTransaction', () => {
+  for (const name of Object.keys(IX_TAG) as IxName[]) {
+    it(`emits ${EXPECTED_TYPE[name]} for ${name}`, () => {
+      const events = decodeSlabTransaction('sig', txResponse([percolatorIx(name)]), PROGRAM, SLAB);
+      expect(events).toHaveLength(1);
+      expect(events[0].type).toBe(EXPECTED_TYPE[name]);
+      expect(events[0].instruction.name).toBe(name);
+      expect(events[0].depth).toBe(1);
+      expect(events[0].innerIndex).toBeNull();
+    });
+  }
+
+  it('fills event fields from args and accounts', () => {
+    const [trade] = decodeSlabTransaction('sig', txResponse([percolatorIx('TradeCpi')]), PROGRAM, SLAB);
+    expect(trade).toMatchObject({ type: 'Trade', lpIdx: 0, userIdx: 3, size: -7n, viaMatcher: true });
+    const [push] = decodeSlabTransaction('sig', txResponse([percolatorIx('PushOraclePrice')]), PROGRAM, SLAB);
+    expect(push).toMatchObject({ type: 'OraclePush', priceE6: 2_000_000n, authority: key(10) });
+  });
+
+  it('decodes the logs of each instruction', () => {
+    const events = decodeSlabTransaction(
+      'sig',
+      txResponse([percolatorIx('KeeperCrank'), percolatorIx('DepositCollateral')]),
+      PROGRAM,
+      SLAB,
+    );
+    expect(events.map(e => e.ixIndex)).toEqual([0, 1]);
+    expect(events[1].logs.map(l => l.kind)).toEqual(['invoke', 'log', 'consumed', 'success']);
+    expect(events[1].logs[1]).toMatchObject({ kind: 'log', message: 'ix 1' });
+    expect(events[1].computeUnits).toBe(1200);
+  });
+
+  it('ignores instructions for other slabs', () => {
+    const events = decodeSlabTransaction('sig', txResponse([percolatorIx('InitUser', key(99))]), PROGRAM, SLAB);
+    expect(events).toEqual([]);
+  });
+
+  it('indexes Percolator instructions reached through CPI', () => {
+    const inner = percolatorIx('TradeCpi');
+    const outer = new TransactionInstruction({
+      programId: MATCHER,
+      keys: [{ pubkey: PROGRAM, isSigner: false, isWritable: false }, ...inner.keys],
+      data: Buffer.from([1]),
+    });
+    const tx = txResponse([outer], {
+      logs: [
+        `Program ${MATCHER.toBase58()} invoke [1]`,
+        'Program log: matching',
+        `Program ${P} invoke [2]`,
+        'Program log: trade filled',
+        `Program ${P} consumed 900 of 180000 compute units`,
+        `Program ${P} success`,
+        `Program ${MATCHER.toBase58()} consumed 2000 of 200000 compute units`,
+        `Program ${MATCHER.toBase58()} success`,
+      ],
+    });
+    const keys = tx.transaction.message.staticAccountKeys;
+    const indexOf = (k: PublicKey) => keys.findIndex(s => s.equals(k));
+    (tx.meta!.innerInstructions as unknown[]) = [{
+      index: 0,
+      instructions: [{
+        programIdIndex: indexOf(PROGRAM),
+        accounts: inner.keys.map(k => indexOf(k.pubkey)),
+        data: bs58.encode(inner.data),
+      }],
+    }];
+
+    const events = decodeSlabTransaction('sig', tx, PROGRAM, SLAB);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'Trade', ixIndex: 0, innerIndex: 0, depth: 2, computeUnits: 900 });
+    expect(events[0].logs.map(l => l.line)).toEqual([
+      `Program ${P} invoke [2]`,
+      'Program log: trade filled',
+      `Program ${P} consumed 900 of 180000 compute units`,
+      `Program ${P} success`,
+    ]);
+  });
+});
+
+describe('parseLogLine', () => {
+  it('decodes program errors and data', () => {
+    expect(parseLogLine(`Program ${P} failed: custom program error: 0x11`)).toMatchObject({
+      kind: 'failed',
+      program: P,
+      error: { code: 17, name: 'EnginePnlNotWarmedUp' },
+    });
+    const data = parseLogLine(`Program data: ${Buffer.from('ab').toString('base64')} ${Buffer.from('c').toString('base64')}`);
+    expect(data).toMatchObject({ kind: 'data' });
+    expect(data.kind === 'data' && data.data.map(d => d.toString())).toEqual(['ab', 'c']);
+    expect(parseLogLine('Log truncated')).toMatchObject({ kind: 'other', line: 'Log truncated' });
+  });
+});
+
+describe('indexSlabHistory', () => {
+  const history = [5, 4, 3, 2, 1].map(n => ({
+    sig: `sig${n}`,
+    tx: txResponse([percolatorIx('DepositCollateral')], {}, n),
+  }));
+
+  it('pages until the history is exhausted', async () => {
+    const { connection, calls } = stubConnection(history);
+    const result = await indexSlabHistory(connection, PROGRAM, SLAB, { pageSize: 2 });
+    expect(result.events.map(e => e.signature)).toEqual(['sig5', 'sig4', 'sig3', 'sig2', 'sig1']);
+    expect(result.newestSignature).toBe('sig5');
+    expect(result.cursor.before).toBe('sig1');
+    expect(result.done).toBe(true);
+    expect(calls.signatures).toBe(3);
+  });
+
+  it('resumes from a cursor and stops at `until`', async () => {
+    const { connection } = stubConnection(history);
+    const first = await indexSlabHistory(connection, PROGRAM, SLAB, { pageSize: 2, maxPages: 1 });
+    expect(first.done).toBe(false);
+    expect(first.events.map(e => e.signature)).toEqual(['sig5', 'sig4']);
+
+    const rest = await indexSlabHistory(connection, PROGRAM, SLAB, { pageSize: 2, cursor: first.cursor });
+    expect(rest.events.map(e => e.signature)).toEqual(['sig3', 'sig2', 'sig1']);
+
+    const incremental = await indexSlabHistory(connection, PROGRAM, SLAB, { pageSize: 10, cursor: { until: 'sig3' } });
+    expect(incremental.events.map(e => e.signature)).toEqual(['sig5', 'sig4']);
+  });
+
+  it('skips failed transactions without fetching them', async () => {
+    const { connection, calls } = stubConnection([
+      history[0],
+      { ...history[1], err: true },
+      history[2],
+    ]);
+    const page = await fetchSlabHistoryPage(connection, PROGRAM, SLAB, {}, 10);
+    expect(page.events.map(e => e.signature)).toEqual(['sig5', 'sig3']);
+    expect(calls.transactions).toEqual(['sig5', 'sig3']);
+    expect(page.done).toBe(true);
+  });
+});
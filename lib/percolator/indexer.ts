@@ -0,0 +1,351 @@
+/**
+ * Slab history indexer — turns Percolator program activity into typed events.
+ * Pages through getSignaturesForAddress for a slab and decodes every
+ * Percolator instruction that targets it, top-level or reached through CPI
+ * (e.g. from a matcher), along with the program logs it emitted.
+ */
+import type {
+  ConfirmedSignatureInfo,
+  Finality,
+  GetVersionedTransactionConfig,
+  PublicKey,
+  SignaturesForAddressOptions,
+  VersionedTransactionResponse,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+
+import { decodeInstruction, type DecodedInstruction, type IxName } from './abi/instructions';
+import { parseErrorFromLogs } from './abi/errors';
+import { AccountKind } from './solana/slab';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The subset of Connection the indexer needs. A real Connection satisfies it;
+ * tests can pass a stub that serves canned signatures and transactions.
+ */
+export interface IndexerConnection {
+  getSignaturesForAddress(
+    address: PublicKey,
+    options?: SignaturesForAddressOptions,
+    commitment?: Finality,
+  ): Promise<ConfirmedSignatureInfo[]>;
+  getTransaction(
+    signature: string,
+    config: GetVersionedTransactionConfig,
+  ): Promise<VersionedTransactionResponse | null>;
+}
+
+/**
+ * Resume point for paging. `before` continues backwards from a signature,
+ * `until` stops once a previously indexed signature is reached.
+ */
+export interface IndexerCursor {
+  before?: string;
+  until?: string;
+}
+
+/**
+ * One decoded program log line. `line` keeps the raw text. A failure's
+ * custom error code is looked up as a Percolator error, so `error` only
+ * means something when `program` is Percolator.
+ */
+export type ProgramLogEntry = { line: string } & (
+  | { kind: 'invoke'; program: string; depth: number }
+  | { kind: 'log'; message: string }
+  | { kind: 'data'; data: Buffer[] }               // "Program data:" base64 chunks (events)
+  | { kind: 'return'; program: string; data: Buffer }
+  | { kind: 'consumed'; program: string; units: number; limit: number }
+  | { kind: 'success'; program: string }
+  | { kind: 'failed'; program: string; message: string; error: { code: number; name: string; hint?: string } | null }
+  | { kind: 'other' }
+);
+
+interface SlabEventBase {
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+  ixIndex: number;               // Top-level instruction index within the transaction
+  innerIndex: number | null;     // Index within that instruction's inner instructions; null when top-level
+  depth: number;                 // Invoke depth: 1 = top-level, 2+ = reached through CPI
+  instruction: DecodedInstruction;
+  logs: ProgramLogEntry[];       // Emitted directly by this invocation (not by its own CPIs)
+  computeUnits: number | null;   // Consumed by this invocation, from its logs
+}
+
+export type SlabEvent = SlabEventBase & (
+  | { type: 'AccountInit'; kind: AccountKind; owner: PublicKey; feePayment: bigint }
+  | { type: 'Deposit'; userIdx: number; owner: PublicKey; amount: bigint }
+  | { type: 'Withdraw'; userIdx: number; owner: PublicKey; amount: bigint }
+  | { type: 'Trade'; lpIdx: number; userIdx: number; size: bigint; user: PublicKey; viaMatcher: boolean }
+  | { type: 'Crank'; callerIdx: number; caller: PublicKey; allowPanic: boolean }
+  | { type: 'Liquidation'; targetIdx: number }
+  | { type: 'OraclePush'; authority: PublicKey; priceE6: bigint; timestamp: bigint }
+  | { type: 'Close'; userIdx: number; owner: PublicKey }
+  | { type: 'InsuranceTopUp'; payer: PublicKey; amount: bigint }
+  | { type: 'AdminChange'; action: IxName; admin: PublicKey }
+);
+
+export type SlabEventType = SlabEvent['type'];
+
+export interface SlabHistoryPage {
+  events: SlabEvent[];           // Newest transaction first, instruction order within a transaction
+  cursor: IndexerCursor;         // Pass back in to fetch the next (older) page
+  newestSignature: string | null;// Store this and pass as `until` for incremental syncs
+  done: boolean;
+}
+
+export interface IndexSlabOptions {
+  cursor?: IndexerCursor;
+  pageSize?: number;
+  maxPages?: number;
+  commitment?: Finality;
+}
+
+// ============================================================================
+// Paging
+// ============================================================================
+
+/**
+ * Fetch and decode one page of slab history.
+ * Failed transactions are skipped since they did not change slab state.
+ */
+export async function fetchSlabHistoryPage(
+  connection: IndexerConnection,
+  programId: PublicKey,
+  slab: PublicKey,
+  cursor: IndexerCursor = {},
+  pageSize: number = 25,
+  commitment: Finality = 'confirmed',
+): Promise<SlabHistoryPage> {
+  const sigs = await connection.getSignaturesForAddress(
+    slab,
+    { before: cursor.before, until: cursor.until, limit: pageSize },
+    commitment,
+  );
+
+  const ok = sigs.filter(s => !s.err);
+  const txs = await Promise.all(
+    ok.map(s => connection.getTransaction(s.signature, {
+      commitment,
+      maxSupportedTransactionVersion: 0,
+    })),
+  );
+
+  const events: SlabEvent[] = [];
+  txs.forEach((tx, i) => {
+    if (tx) events.push(...decodeSlabTransaction(ok[i].signature, tx, programId, slab));
+  });
+
+  const oldest = sigs.length > 0 ? sigs[sigs.length - 1].signature : cursor.before;
+  return {
+    events,
+    cursor: { before: oldest, until: cursor.until },
+    newestSignature: sigs.length > 0 ? sigs[0].signature : null,
+    done: sigs.length < pageSize,
+  };
+}
+
+/**
+ * Page through slab history until exhausted, `until` is reached, or
+ * `maxPages` pages have been read. Resume later with the returned cursor.
+ */
+export async function indexSlabHistory(
+  connection: IndexerConnection,
+  programId: PublicKey,
+  slab: PublicKey,
+  options: IndexSlabOptions = {},
+): Promise<SlabHistoryPage> {
+  const { pageSize = 25, maxPages = Infinity, commitment = 'confirmed' } = options;
+  let cursor: IndexerCursor = options.cursor ?? {};
+  const events: SlabEvent[] = [];
+  let newestSignature: string | null = null;
+  let done = false;
+
+  for (let page = 0; page < maxPages && !done; page++) {
+    const result = await fetchSlabHistoryPage(connection, programId, slab, cursor, pageSize, commitment);
+    events.push(...result.events);
+    newestSignature = newestSignature ?? result.newestSignature;
+    cursor = result.cursor;
+    done = result.done;
+  }
+
+  return { events, cursor, newestSignature, done };
+}
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+/**
+ * Decode every Percolator instruction in a transaction that targets the
+ * given slab: top-level ones and those invoked through CPI, in execution
+ * order. Instructions that fail to decode are skipped.
+ */
+export function decodeSlabTransaction(
+  signature: string,
+  tx: VersionedTransactionResponse,
+  programId: PublicKey,
+  slab: PublicKey,
+): SlabEvent[] {
+  const message = tx.transaction.message;
+  const accountKeys = message.version === 'legacy'
+    ? message.getAccountKeys()
+    : message.getAccountKeys({ accountKeysFromLookups: tx.meta?.loadedAddresses });
+  const invocations = splitInvocations(tx.meta?.logMessages ?? []);
+  const innerByIx = new Map((tx.meta?.innerInstructions ?? []).map(inner => [inner.index, inner.instructions]));
+
+  const events: SlabEvent[] = [];
+  const visit = (
+    programIndex: number,
+    keyIndexes: number[],
+    data: Uint8Array,
+    ixIndex: number,
+    innerIndex: number | null,
+  ) => {
+    const program = accountKeys.get(programIndex);
+    if (!program || !program.equals(programId)) return;
+
+    const keys = keyIndexes.map(k => accountKeys.get(k)!);
+    let instruction: DecodedInstruction;
+    try {
+      instruction = decodeInstruction(Buffer.from(data), keys);
+    } catch {
+      return; // Unknown or malformed instruction — not ours to index
+    }
+    if (!instruction.accounts.slab?.equals(slab)) return;
+
+    // Invocation 0 of a top-level group is the instruction itself, then its
+    // inner instructions in execution order. Truncated logs can misalign
+    // that, so only trust an invocation of the same program.
+    const invocation = invocations[ixIndex]?.[innerIndex === null ? 0 : innerIndex + 1];
+    const matched = invocation?.program === programId.toBase58() ? invocation : undefined;
+
+    events.push(toEvent({
+      signature,
+      slot: tx.slot,
+      blockTime: tx.blockTime ?? null,
+      ixIndex,
+      innerIndex,
+      depth: matched?.depth ?? (innerIndex === null ? 1 : 2),
+      instruction,
+      logs: matched?.logs ?? [],
+      computeUnits: matched?.computeUnits ?? null,
+    }));
+  };
+
+  message.compiledInstructions.forEach((cix, ixIndex) => {
+    visit(cix.programIdIndex, cix.accountKeyIndexes, cix.data, ixIndex, null);
+    innerByIx.get(ixIndex)?.forEach((inner, innerIndex) => {
+      visit(inner.programIdIndex, inner.accounts, bs58.decode(inner.data), ixIndex, innerIndex);
+    });
+  });
+  return events;
+}
+
+// ============================================================================
+// Logs
+// ============================================================================
+
+interface Invocation {
+  program: string;
+  depth: number;
+  logs: ProgramLogEntry[];
+  computeUnits: number | null;
+}
+
+/**
+ * Split logs into invocations, grouped by top-level instruction. Within a
+ * group they are in execution order, matching [instruction, ...inner
+ * instructions]; each keeps only the lines it emitted itself.
+ */
+function splitInvocations(logs: string[]): Invocation[][] {
+  const groups: Invocation[][] = [];
+  const stack: Invocation[] = [];
+  for (const line of logs) {
+    const entry = parseLogLine(line);
+    if (entry.kind === 'invoke') {
+      if (entry.depth === 1) {
+        groups.push([]);
+        stack.length = 0;
+      }
+      const invocation: Invocation = { program: entry.program, depth: entry.depth, logs: [entry], computeUnits: null };
+      groups[groups.length - 1]?.push(invocation);
+      stack.push(invocation);
+      continue;
+    }
+    const current = stack[stack.length - 1];
+    if (!current) continue;
+    current.logs.push(entry);
+    if (entry.kind === 'consumed') current.computeUnits = entry.units;
+    if (entry.kind === 'success' || entry.kind === 'failed') stack.pop();
+  }
+  return groups;
+}
+
+/**
+ * Decode one runtime log line.
+ */
+export function parseLogLine(line: string): ProgramLogEntry {
+  let m = line.match(/^Program (\w+) invoke \[(\d+)\]$/);
+  if (m) return { line, kind: 'invoke', program: m[1], depth: Number(m[2]) };
+  if (line.startsWith('Program log: ')) return { line, kind: 'log', message: line.slice('Program log: '.length) };
+  if (line.startsWith('Program data: ')) {
+    const chunks = line.slice('Program data: '.length).split(' ').filter(Boolean);
+    return { line, kind: 'data', data: chunks.map(c => Buffer.from(c, 'base64')) };
+  }
+  m = line.match(/^Program return: (\w+) (\S*)$/);
+  if (m) return { line, kind: 'return', program: m[1], data: Buffer.from(m[2], 'base64') };
+  m = line.match(/^Program (\w+) consumed (\d+) of (\d+) compute units$/);
+  if (m) return { line, kind: 'consumed', program: m[1], units: Number(m[2]), limit: Number(m[3]) };
+  m = line.match(/^Program (\w+) success$/);
+  if (m) return { line, kind: 'success', program: m[1] };
+  m = line.match(/^Program (\w+) failed: (.*)$/);
+  if (m) return { line, kind: 'failed', program: m[1], message: m[2], error: parseErrorFromLogs([m[2]]) };
+  return { line, kind: 'other' };
+}
+
+function toEvent(base: SlabEventBase): SlabEvent {
+  const ix = base.instruction;
+  switch (ix.name) {
+    case 'InitUser':
+    case 'InitLP':
+      return {
+        ...base,
+        type: 'AccountInit',
+        kind: ix.name === 'InitLP' ? AccountKind.LP : AccountKind.User,
+        owner: ix.accounts.user,
+        feePayment: ix.args.feePayment,
+      };
+    case 'DepositCollateral':
+      return { ...base, type: 'Deposit', userIdx: ix.args.userIdx, owner: ix.accounts.user, amount: ix.args.amount };
+    case 'WithdrawCollateral':
+      return { ...base, type: 'Withdraw', userIdx: ix.args.userIdx, owner: ix.accounts.user, amount: ix.args.amount };
+    case 'TradeCpi':
+    case 'TradeNoCpi':
+      return {
+        ...base,
+        type: 'Trade',
+        lpIdx: ix.args.lpIdx,
+        userIdx: ix.args.userIdx,
+        size: ix.args.size,
+        user: ix.accounts.user,
+        viaMatcher: ix.name === 'TradeCpi',
+      };
+    case 'KeeperCrank':
+      return { ...base, type: 'Crank', callerIdx: ix.args.callerIdx, caller: ix.accounts.caller, allowPanic: ix.args.allowPanic };
+    case 'LiquidateAtOracle':
+      return { ...base, type: 'Liquidation', targetIdx: ix.args.targetIdx };
+    case 'PushOraclePrice':
+      return { ...base, type: 'OraclePush', authority: ix.accounts.authority, priceE6: ix.args.priceE6, timestamp: ix.args.timestamp };
+    case 'CloseAccount':
+      return { ...base, type: 'Close', userIdx: ix.args.userIdx, owner: ix.accounts.user };
+    case 'TopUpInsurance':
+      return { ...base, type: 'InsuranceTopUp', payer: ix.accounts.user, amount: ix.args.amount };
+    default:
+      // InitMarket and every admin-only instruction
+      return { ...base, type: 'AdminChange', action: ix.name, admin: ix.accounts.admin };
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Slab invariant checks — cross-check parsed engine aggregates against the
+ * accounts they summarize. A violation almost always means the layout we
+ * parse with no longer matches the deployed program (offsets moved after an
+ * upgrade), so balances shown to users cannot be trusted.
+ */
+import { AccountKind, detectSlabLayout, parseAllAccounts, parseEngine, parseUsedIndices } from './solana/slab';
+import type { Account, EngineState } from './solana/slab';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SlabInvariant =
+  | 'layout'              // Header, engine or bitmap failed to parse
+  | 'numUsedAccounts'     // equals bitmap popcount
+  | 'cTot'                // equals sum of account capital
+  | 'pnlPosTot'           // equals sum of positive account pnl
+  | 'netLpPos'            // equals sum of LP positionSize
+  | 'nextAccountId';      // greater than every accountId
+
+export interface InvariantViolation {
+  invariant: SlabInvariant;
+  message: string;
+  expected?: bigint;      // Value derived from the accounts
+  actual?: bigint;        // Value stored in the engine
+}
+
+export interface SlabInvariantReport {
+  ok: boolean;
+  layoutVersion: number | null;
+  usedAccounts: number;
+  checked: SlabInvariant[];
+  violations: InvariantViolation[];
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/**
+ * Check a slab buffer. Accepts the full account data or any prefix that
+ * covers every used account (e.g. from fetchSlabUsed).
+ */
+export function checkSlabInvariants(data: Buffer): SlabInvariantReport {
+  const report: SlabInvariantReport = {
+    ok: false,
+    layoutVersion: null,
+    usedAccounts: 0,
+    checked: ['layout'],
+    violations: [],
+  };
+
+  let engine: EngineState;
+  let used: number[];
+  let accounts: Account[];
+  try {
+    const layout = detectSlabLayout(data);
+    report.layoutVersion = layout.version;
+    engine = parseEngine(data, layout);
+    used = parseUsedIndices(data, layout);
+    accounts = parseAllAccounts(data).map(a => a.account);
+  } catch (e) {
+    report.violations.push({
+      invariant: 'layout',
+      message: e instanceof Error ? e.message : String(e),
+    });
+    return report;
+  }
+  report.usedAccounts = used.length;
+
+  if (accounts.length < used.length) {
+    report.violations.push({
+      invariant: 'layout',
+      message: `Only ${accounts.length} of ${used.length} used accounts are within the data`,
+    });
+    return report;
+  }
+
+  let capital = 0n;
+  let pnlPos = 0n;
+  let lpPos = 0n;
+  let maxAccountId = -1n;
+  for (const a of accounts) {
+    capital += a.capital;
+    if (a.pnl > 0n) pnlPos += a.pnl;
+    if (a.kind === AccountKind.LP) lpPos += a.positionSize;
+    if (a.accountId > maxAccountId) maxAccountId = a.accountId;
+  }
+
+  const expectEqual = (invariant: SlabInvariant, what: string, expected: bigint, actual: bigint) => {
+    report.checked.push(invariant);
+    if (expected !== actual) {
+      report.violations.push({
+        invariant,
+        message: `${invariant} is ${actual}, ${what} is ${expected}`,
+        expected,
+        actual,
+      });
+    }
+  };
+
+  expectEqual('numUsedAccounts', 'bitmap popcount', BigInt(used.length), BigInt(engine.numUsedAccounts));
+  expectEqual('cTot', 'sum of capital', capital, engine.cTot);
+  expectEqual('pnlPosTot', 'sum of positive pnl', pnlPos, engine.pnlPosTot);
+  expectEqual('netLpPos', 'sum of LP positions', lpPos, engine.netLpPos);
+
+  report.checked.push('nextAccountId');
+  if (engine.nextAccountId <= maxAccountId) {
+    report.violations.push({
+      invariant: 'nextAccountId',
+      message: `nextAccountId is ${engine.nextAccountId}, highest accountId is ${maxAccountId}`,
+      expected: maxAccountId + 1n,
+      actual: engine.nextAccountId,
+    });
+  }
+
+  report.ok = report.violations.length === 0;
+  return report;
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import { PublicKey } from '@solana/web3.js';
+import { SlabBuilder } from './solana/builder';
+import { parseAccount, parseEngine, parseParams } from './solana/slab';
+import type { Account } from './solana/slab';
+import {
+  computeMargin,
+  estimateLiquidationPrice,
+  computeHaircut,
+  haircutBps,
+  realizablePnl,
+  leverageFromBps,
+} from './risk';
+
+const owner = new PublicKey(Buffer.alloc(32, 3));
+
+// Default builder params: 5% maintenance, 10% initial, 0.5% liquidation buffer
+function slabWith(account: Partial<Account>) {
+  const data = new SlabBuilder().account(1, { owner, ...account }).build();
+  return { account: parseAccount(data, 1), params: parseParams(data) };
+}
+
+describe('computeMargin', () => {
+  it('summarizes a long in profit', () => {
+    const { account, params } = slabWith({
+      capital: 10_000_000n,
+      positionSize: 50_000_000n,
+      entryPrice: 1_000_000n,
+    });
+
+    expect(computeMargin(account, params, 1_100_000n)).toEqual({
+      markPnl: 5_000_000n,
+      equity: 15_000_000n,
+      notional: 55_000_000n,
+      initialMargin: 5_500_000n,
+      maintenanceMargin: 2_750_000n,
+      freeCollateral: 9_500_000n,
+      maxWithdrawable: 9_500_000n,
+      marginRatioBps: 2_727n,
+      leverageBps: 36_666n,
+      aboveMaintenance: true,
+    });
+  });
+
+  it('truncates negative mark-to-market PnL toward zero', () => {
+    const long = slabWith({ capital: 1_000_000n, positionSize: 1_500_001n, entryPrice: 2_000_000n });
+    // 1_500_001 * -1 / 1e6 = -1.500001: -1, not -2
+    expect(computeMargin(long.account, long.params, 1_999_999n).markPnl).toBe(-1n);
+
+    const short = slabWith({ capital: 1_000_000n, positionSize: -7n, entryPrice: 1_000_000n });
+    expect(computeMargin(short.account, short.params, 1_000_001n).markPnl).toBe(0n);
+  });
+
+  it('reports null leverage at zero equity', () => {
+    const { account, params } = slabWith({
+      capital: 1_000_000n,
+      positionSize: 10_000_000n,
+      entryPrice: 1_000_000n,
+    });
+    const margin = computeMargin(account, params, 800_000n);
+
+    expect(margin.markPnl).toBe(-2_000_000n);
+    expect(margin.equity).toBe(0n);
+    expect(margin.leverageBps).toBeNull();
+    expect(leverageFromBps(margin.leverageBps)).toBe(Infinity);
+    expect(margin.marginRatioBps).toBe(0n);
+    expect(margin.freeCollateral).toBe(0n);
+    expect(margin.aboveMaintenance).toBe(false);
+  });
+
+  it('reports zero leverage and no margin ratio when flat', () => {
+    const { account, params } = slabWith({ capital: 1_000_000n });
+    const margin = computeMargin(account, params, 1_000_000n);
+
+    expect(margin.leverageBps).toBe(0n);
+    expect(margin.marginRatioBps).toBeNull();
+    expect(margin.maxWithdrawable).toBe(1_000_000n);
+    expect(margin.aboveMaintenance).toBe(true);
+  });
+});
+
+describe('estimateLiquidationPrice', () => {
+  const position = { capital: 10_000_000n, entryPrice: 1_000_000n };
+
+  it('puts a long below entry, with the buffer crossed first', () => {
+    const { account, params } = slabWith({ ...position, positionSize: 100_000_000n });
+    expect(estimateLiquidationPrice(account, params)).toEqual({
+      priceE6: 947_368n,
+      bufferPriceE6: 952_380n,
+    });
+  });
+
+  it('puts a short above entry, with the buffer crossed first', () => {
+    const { account, params } = slabWith({ ...position, positionSize: -100_000_000n });
+    expect(estimateLiquidationPrice(account, params)).toEqual({
+      priceE6: 1_047_619n,
+      bufferPriceE6: 1_042_654n,
+    });
+  });
+
+  it('quotes an inverted market in market terms', () => {
+    // An engine long is a market short: the trigger sits above the quoted entry
+    const long = slabWith({ ...position, positionSize: 100_000_000n });
+    expect(estimateLiquidationPrice(long.account, long.params, 1)).toEqual({
+      priceE6: 1_055_556n,
+      bufferPriceE6: 1_050_001n,
+    });
+
+    const short = slabWith({ ...position, positionSize: -100_000_000n });
+    expect(estimateLiquidationPrice(short.account, short.params, 1)).toEqual({
+      priceE6: 954_545n,
+      bufferPriceE6: 959_090n,
+    });
+  });
+
+  it('returns null when flat or when a long cannot be liquidated', () => {
+    const flat = slabWith({ capital: 10_000_000n });
+    expect(estimateLiquidationPrice(flat.account, flat.params)).toEqual({ priceE6: null, bufferPriceE6: null });
+
+    const overcollateralized = slabWith({ capital: 200_000_000n, positionSize: 100_000_000n, entryPrice: 1_000_000n });
+    expect(estimateLiquidationPrice(overcollateralized.account, overcollateralized.params).priceE6).toBeNull();
+  });
+});
+
+describe('haircut', () => {
+  // Two accounts: +0.4 SOL and -0.1 SOL PnL, so pnlPosTot = 0.4 SOL
+  function engineWith(vault: bigint, insurance: bigint) {
+    const data = new SlabBuilder()
+      .account(1, { owner, capital: 1_000_000_000n, pnl: 400_000_000n })
+      .account(2, { owner, capital: 1_000_000_000n, pnl: -100_000_000n })
+      .engine({ vault, insuranceFund: { balance: insurance, feeRevenue: 0n } })
+      .build();
+    return parseEngine(data);
+  }
+
+  it('scales profits when the residual falls short of pnlPosTot', () => {
+    // residual = 2.15 - 2.0 capital - 0.05 insurance = 0.1 SOL of 0.4 SOL profits
+    const haircut = computeHaircut(engineWith(2_150_000_000n, 50_000_000n));
+
+    expect(haircut).toEqual({ numerator: 100_000_000n, denominator: 400_000_000n });
+    expect(haircutBps(haircut)).toBe(2_500);
+    expect(realizablePnl(400_000_000n, haircut)).toBe(100_000_000n);
+    expect(realizablePnl(3n, haircut)).toBe(0n);
+    expect(realizablePnl(-100_000_000n, haircut)).toBe(-100_000_000n);
+  });
+
+  it('floors the residual at zero', () => {
+    const haircut = computeHaircut(engineWith(1_900_000_000n, 50_000_000n));
+    expect(haircut.numerator).toBe(0n);
+    expect(realizablePnl(400_000_000n, haircut)).toBe(0n);
+  });
+
+  it('pays in full when the residual covers every profit', () => {
+    const haircut = computeHaircut(engineWith(3_000_000_000n, 50_000_000n));
+    expect(haircutBps(haircut)).toBe(10_000);
+    expect(realizablePnl(400_000_000n, haircut)).toBe(400_000_000n);
+  });
+
+  it('is 1/1 when nobody is in profit', () => {
+    const data = new SlabBuilder().account(1, { owner, capital: 1_000_000_000n }).build();
+    expect(computeHaircut(parseEngine(data))).toEqual({ numerator: 1n, denominator: 1n });
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Margin and risk math — bigint mirror of the on-chain risk engine.
+ * Prices are e6 in the engine's (possibly inverted) terms, position sizes
+ * are in engine units, and amounts come out in collateral base units
+ * (lamports for wSOL markets). Divisions truncate toward zero like the
+ * program's i128 arithmetic.
+ */
+import type { Account, EngineState, MarketConfig, RiskParams } from './solana/slab';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MarginSummary {
+  markPnl: bigint;               // Unsettled PnL since entry at the mark price
+  equity: bigint;                // max(0, capital + pnl + markPnl)
+  notional: bigint;              // |size| * mark
+  initialMargin: bigint;         // Required to open or grow a position, and after withdrawals
+  maintenanceMargin: bigint;     // Liquidatable at or below this equity
+  freeCollateral: bigint;        // equity - initialMargin, floored at 0
+  maxWithdrawable: bigint;       // Capital that can leave while staying above initial margin
+  marginRatioBps: bigint | null;   // equity / notional; null when flat
+  leverageBps: bigint | null;    // notional / equity; 0 when flat, null when equity is 0
+  aboveMaintenance: boolean;
+}
+
+export interface LiquidationEstimate {
+  priceE6: bigint | null;        // Equity reaches maintenance here; null when flat or never reached
+  bufferPriceE6: bigint | null;  // Equity reaches maintenance + liquidation buffer; crossed first
+}
+
+/**
+ * Share of positive PnL the vault can pay out, as a fraction <= 1. The
+ * engine pays winners from what the vault holds beyond capital and
+ * insurance, scaled pro rata when that falls short of total positive PnL.
+ */
+export interface HaircutRatio {
+  numerator: bigint;             // min(residual, pnlPosTot)
+  denominator: bigint;           // pnlPosTot; numerator == denominator means no haircut
+}
+
+/** The account fields the liquidation math reads; lets callers preview hypothetical positions */
+export type PositionTerms = Pick<Account, 'capital' | 'pnl' | 'positionSize' | 'entryPrice'>;
+
+export const PRICE_SCALE = 1_000_000n;
+export const BPS_DENOMINATOR = 10_000n;
+/** e6 * e6: an e6 price inverts as INVERT_SCALE / price */
+export const INVERT_SCALE = PRICE_SCALE * PRICE_SCALE;
+
+// ============================================================================
+// Building blocks
+// ============================================================================
+
+export function absBigint(value: bigint): bigint {
+  return value < 0n ? -value : value;
+}
+
+/**
+ * Mark price the engine last used, falling back to the admin-pushed price.
+ * 0n when the market has never been priced.
+ */
+export function engineMarkPrice(config: MarketConfig): bigint {
+  return config.lastEffectivePriceE6 || config.authorityPriceE6;
+}
+
+/**
+ * PnL of a position from entry to mark: size * (mark - entry) / 1e6.
+ * Positive sizes are long, so a rising mark is a gain.
+ */
+export function markToMarketPnl(positionSize: bigint, entryPriceE6: bigint, markPriceE6: bigint): bigint {
+  if (positionSize === 0n) return 0n;
+  return positionSize * (markPriceE6 - entryPriceE6) / PRICE_SCALE;
+}
+
+/**
+ * Position value at a price: |size| * price / 1e6.
+ */
+export function positionNotional(positionSize: bigint, priceE6: bigint): bigint {
+  return absBigint(positionSize) * priceE6 / PRICE_SCALE;
+}
+
+/**
+ * Margin required for a notional at a bps rate.
+ */
+export function marginRequirement(notional: bigint, marginBps: bigint): bigint {
+  return notional * marginBps / BPS_DENOMINATOR;
+}
+
+/**
+ * 1 / price in e6 terms. 0n for an unpriced (0) input.
+ */
+export function invertPriceE6(priceE6: bigint): bigint {
+  return priceE6 > 0n ? INVERT_SCALE / priceE6 : 0n;
+}
+
+/**
+ * Convert between the engine's price and the market's quoted price. With
+ * MarketConfig.invert set the engine trades 1 / oracle price, so the same
+ * inversion maps either way.
+ */
+export function toMarketPriceE6(enginePriceE6: bigint, invert: number): bigint {
+  return invert ? invertPriceE6(enginePriceE6) : enginePriceE6;
+}
+
+/**
+ * Equity at the mark: capital plus stored and unsettled PnL, floored at 0
+ * (losses past capital are the insurance fund's problem, not the account's).
+ */
+export function accountEquity(account: Account, markPriceE6: bigint): bigint {
+  const equity = account.capital + account.pnl
+    + markToMarketPnl(account.positionSize, account.entryPrice, markPriceE6);
+  return equity > 0n ? equity : 0n;
+}
+
+// ============================================================================
+// Summary
+// ============================================================================
+
+/**
+ * Full margin picture for an account at a mark price.
+ */
+export function computeMargin(account: Account, params: RiskParams, markPriceE6: bigint): MarginSummary {
+  const markPnl = markToMarketPnl(account.positionSize, account.entryPrice, markPriceE6);
+  const equity = accountEquity(account, markPriceE6);
+  const notional = positionNotional(account.positionSize, markPriceE6);
+  const initialMargin = marginRequirement(notional, params.initialMarginBps);
+  const maintenanceMargin = marginRequirement(notional, params.maintenanceMarginBps);
+
+  const freeCollateral = equity > initialMargin ? equity - initialMargin : 0n;
+  // Withdrawals come out of capital only; positive PnL must warm up first
+  const maxWithdrawable = account.capital < freeCollateral ? account.capital : freeCollateral;
+
+  let leverageBps: bigint | null = 0n;
+  if (notional > 0n) leverageBps = equity > 0n ? notional * BPS_DENOMINATOR / equity : null;
+
+  return {
+    markPnl,
+    equity,
+    notional,
+    initialMargin,
+    maintenanceMargin,
+    freeCollateral,
+    maxWithdrawable,
+    marginRatioBps: notional > 0n ? equity * BPS_DENOMINATOR / notional : null,
+    leverageBps,
+    // The engine liquidates at equity <= maintenance; a flat account never is
+    aboveMaintenance: notional === 0n || equity > maintenanceMargin,
+  };
+}
+
+/**
+ * Leverage from bps as a display number (e.g. 25_000n -> 2.5).
+ */
+export function leverageFromBps(leverageBps: bigint | null): number {
+  return leverageBps === null ? Infinity : Number(leverageBps) / Number(BPS_DENOMINATOR);
+}
+
+// ============================================================================
+// Liquidation
+// ============================================================================
+
+/**
+ * Liquidation price estimate for an account, in market terms (un-inverted
+ * when `invert` is set). The engine liquidates at equity <= maintenance and
+ * closes enough to restore maintenance + liquidationBufferBps, so
+ * bufferPriceE6 is the early warning and priceE6 the trigger.
+ *
+ * Assumes capital and stored PnL stay as they are; funding and fees accrued
+ * from here on move the real price toward the mark.
+ */
+export function estimateLiquidationPrice(
+  account: PositionTerms,
+  params: RiskParams,
+  invert: number = 0,
+): LiquidationEstimate {
+  const trigger = solveEquityPrice(account, params.maintenanceMarginBps);
+  const buffer = solveEquityPrice(account, params.maintenanceMarginBps + params.liquidationBufferBps);
+  const toMarket = (price: bigint | null) => {
+    if (price === null) return null;
+    const market = toMarketPriceE6(price, invert);
+    return market > 0n ? market : null;
+  };
+  return { priceE6: toMarket(trigger), bufferPriceE6: toMarket(buffer) };
+}
+
+// Engine price p where capital + pnl + size * (p - entry) / 1e6 equals
+// |size| * p * marginBps / 1e4:
+//   p = (size * entry - (capital + pnl) * 1e6) * 1e4 / (size * 1e4 - |size| * marginBps)
+// Null when flat, or when the answer is not a positive price (a long
+// collateralized past its notional can't be liquidated).
+function solveEquityPrice(account: PositionTerms, marginBps: bigint): bigint | null {
+  const size = account.positionSize;
+  if (size === 0n) return null;
+  const denominator = size * BPS_DENOMINATOR - absBigint(size) * marginBps;
+  if (denominator === 0n) return null;
+  const numerator = (size * account.entryPrice - (account.capital + account.pnl) * PRICE_SCALE) * BPS_DENOMINATOR;
+  const price = numerator / denominator;
+  return price > 0n ? price : null;
+}
+
+// ============================================================================
+// Haircut
+// ============================================================================
+
+/**
+ * Current haircut: residual = vault - cTot - insurance (floored at 0),
+ * h = min(residual, pnlPosTot) / pnlPosTot. 1/1 when nobody is in profit.
+ */
+export function computeHaircut(engine: EngineState): HaircutRatio {
+  const pnlPosTot = engine.pnlPosTot;
+  if (pnlPosTot === 0n) return { numerator: 1n, denominator: 1n };
+  const backed = engine.cTot + engine.insuranceFund.balance;
+  const residual = engine.vault > backed ? engine.vault - backed : 0n;
+  return { numerator: residual < pnlPosTot ? residual : pnlPosTot, denominator: pnlPosTot };
+}
+
+/**
+ * The haircut as bps paid out (10000 = in full).
+ */
+export function haircutBps(haircut: HaircutRatio): number {
+  return Number(haircut.numerator * BPS_DENOMINATOR / haircut.denominator);
+}
+
+/**
+ * PnL an account would actually receive: losses count in full, profits
+ * are scaled by the haircut (rounded down, as the engine does).
+ */
+export function realizablePnl(pnl: bigint, haircut: HaircutRatio): bigint {
+  if (pnl <= 0n) return pnl;
+  return pnl * haircut.numerator / haircut.denominator;
+}
@@ -0,0 +1,238 @@
+/**
+ * Resilient send pipeline — shared by Percolator and pump.fun transactions.
+ * Signs against a blockhash fetched right before signing (so the expiry
+ * window is known), rebroadcasts until that blockhash expires, optionally
+ * re-signs with a fresh one, and tracks the signature over the websocket
+ * with status polling as a fallback. Progress is reported as lifecycle events.
+ */
+import {
+  Connection,
+  Transaction,
+  TransactionExpiredBlockheightExceededError,
+  VersionedTransaction,
+  type BlockhashWithExpiryBlockHeight,
+  type TransactionConfirmationStatus,
+  type TransactionError,
+} from '@solana/web3.js';
+
+import { classifyTxError, type TxErrorInfo } from './abi/errors';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TxLifecycleStage = 'signed' | 'sent' | 'processed' | 'confirmed' | 'finalized' | 'failed';
+
+export type TxLifecycleEvent =
+  | { stage: 'signed'; attempt: number }
+  | { stage: 'sent'; signature: string; attempt: number }
+  | { stage: 'processed' | 'confirmed' | 'finalized'; signature: string; slot: number }
+  | { stage: 'failed'; signature: string; failure: TxErrorInfo };
+
+export type TxLifecycleHandler = (event: TxLifecycleEvent) => void;
+
+/** Short status text per stage, for progress banners */
+export const TX_STAGE_LABELS: Record<TxLifecycleStage, string> = {
+  signed: 'Signed, sending...',
+  sent: 'Sent, waiting for the network...',
+  processed: 'Processed, confirming...',
+  confirmed: 'Confirmed',
+  finalized: 'Finalized',
+  failed: 'Failed',
+};
+
+/**
+ * Set the blockhash on the transaction and return it signed. Called once
+ * per attempt, so it must sign again (wallet prompt) each time, unless it
+ * is handed the blockhash of a transaction it already holds signed.
+ */
+export type TxSigner = (blockhash: string) => Promise<Transaction | VersionedTransaction>;
+
+export interface SendPipelineOptions {
+  commitment?: TransactionConfirmationStatus;   // Resolve once reached (default: confirmed)
+  resign?: number;               // Re-signs with a fresh blockhash after expiry (default: 0)
+  skipPreflight?: boolean;       // RPC preflight on the first broadcast (default: false)
+  rebroadcastMs?: number;        // Rebroadcast interval while unseen (default: 2000)
+  pollMs?: number;               // Status poll interval (default: 1000)
+  finalizeTimeoutMs?: number;    // Keep watching for 'finalized' after resolving (default: 60000)
+  blockhash?: BlockhashWithExpiryBlockHeight;   // First attempt signs against this while still valid
+  onEvent?: TxLifecycleHandler;
+}
+
+export interface SendOutcome {
+  signature: string;             // Last signature broadcast, '' if none was sent
+  slot?: number;
+  failure?: TxErrorInfo;
+}
+
+const STAGE_ORDER: TransactionConfirmationStatus[] = ['processed', 'confirmed', 'finalized'];
+
+// ============================================================================
+// Pipeline
+// ============================================================================
+
+/**
+ * Sign, send and confirm. Never throws: wallet rejection, preflight errors,
+ * on-chain failures and expiry all come back as a classified failure.
+ */
+export async function sendWithRetry(
+  connection: Connection,
+  sign: TxSigner,
+  options: SendPipelineOptions = {},
+): Promise<SendOutcome> {
+  const { resign = 0, skipPreflight = false, blockhash, onEvent } = options;
+  let signature = '';
+
+  const fail = (failure: TxErrorInfo): SendOutcome => {
+    onEvent?.({ stage: 'failed', signature, failure });
+    return { signature, failure };
+  };
+
+  try {
+    for (let attempt = 0; attempt <= resign; attempt++) {
+      // A caller's blockhash (transactions signed ahead in a batch) is only
+      // worth using if it can still land
+      const expiry = attempt === 0 && blockhash
+        && await connection.getBlockHeight('confirmed') <= blockhash.lastValidBlockHeight
+        ? blockhash
+        : await connection.getLatestBlockhash('confirmed');
+      const signed = await sign(expiry.blockhash);
+      onEvent?.({ stage: 'signed', attempt });
+
+      const raw = signed.serialize();
+      signature = await connection.sendRawTransaction(raw, {
+        skipPreflight,
+        preflightCommitment: 'confirmed',
+        maxRetries: 0,
+      });
+      onEvent?.({ stage: 'sent', signature, attempt });
+
+      const landed = await watchSignature(connection, signature, raw, expiry, options);
+      if (!landed) continue;   // Expired unseen; re-sign if allowed
+
+      if (landed.err) {
+        const logs = await fetchLogs(connection, signature);
+        return fail(classifyTxError(landed.err, logs));
+      }
+      return { signature, slot: landed.slot };
+    }
+    return fail(classifyTxError(new TransactionExpiredBlockheightExceededError(signature)));
+  } catch (e) {
+    return fail(classifyTxError(e));
+  }
+}
+
+/**
+ * Track a broadcast transaction until it reaches the target commitment or
+ * its blockhash expires (null). Rebroadcasts while the signature is unseen.
+ */
+async function watchSignature(
+  connection: Connection,
+  signature: string,
+  raw: Uint8Array,
+  expiry: BlockhashWithExpiryBlockHeight,
+  options: SendPipelineOptions,
+): Promise<{ slot: number; err: TransactionError | null } | null> {
+  const {
+    commitment = 'confirmed',
+    rebroadcastMs = 2_000,
+    pollMs = 1_000,
+    finalizeTimeoutMs = 60_000,
+    onEvent,
+  } = options;
+  const target = STAGE_ORDER.indexOf(commitment);
+
+  let emitted = -1;
+  const progress = (stage: number, slot: number) => {
+    for (let i = emitted + 1; i <= stage; i++) {
+      onEvent?.({ stage: STAGE_ORDER[i], signature, slot });
+    }
+    emitted = Math.max(emitted, stage);
+  };
+  const reached = (slot: number) => {
+    progress(target, slot);
+    if (target < STAGE_ORDER.length - 1 && onEvent) {
+      void watchFinalized(connection, signature, finalizeTimeoutMs, pollMs * 2, onEvent);
+    }
+    return { slot, err: null };
+  };
+
+  // Websocket first; polling below covers a dropped or missing subscription
+  const ws: { result: { slot: number; err: TransactionError | null } | null } = { result: null };
+  const subscriptionId = connection.onSignature(signature, (result, context) => {
+    ws.result = { slot: context.slot, err: result.err };
+  }, commitment);
+
+  let lastBroadcast = Date.now();
+  try {
+    for (;;) {
+      if (ws.result) {
+        return ws.result.err ? ws.result : reached(ws.result.slot);
+      }
+
+      const { value: [status] } = await connection.getSignatureStatuses([signature]);
+      if (status) {
+        if (status.err) return { slot: status.slot, err: status.err };
+        const stage = STAGE_ORDER.indexOf(status.confirmationStatus ?? 'processed');
+        if (stage >= target) return reached(status.slot);
+        progress(stage, status.slot);
+      } else if (await connection.getBlockHeight('confirmed') > expiry.lastValidBlockHeight) {
+        // Past expiry it can no longer land; one last look in case it already did
+        const { value: [last] } = await connection.getSignatureStatuses([signature], {
+          searchTransactionHistory: true,
+        });
+        if (!last) return null;
+        return last.err ? { slot: last.slot, err: last.err } : reached(last.slot);
+      } else if (Date.now() - lastBroadcast >= rebroadcastMs) {
+        lastBroadcast = Date.now();
+        connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 }).catch(() => {});
+      }
+
+      await sleep(pollMs);
+    }
+  } finally {
+    // Already gone if the websocket delivered; removal is best effort
+    connection.removeSignatureListener(subscriptionId).catch(() => {});
+  }
+}
+
+/**
+ * Keep polling after the caller has resolved, to report 'finalized'.
+ */
+async function watchFinalized(
+  connection: Connection,
+  signature: string,
+  timeoutMs: number,
+  pollMs: number,
+  onEvent: TxLifecycleHandler,
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    await sleep(pollMs);
+    try {
+      const { value: [status] } = await connection.getSignatureStatuses([signature]);
+      if (status?.confirmationStatus === 'finalized') {
+        onEvent({ stage: 'finalized', signature, slot: status.slot });
+        return;
+      }
+    } catch {
+      // Transient RPC errors: keep polling until the deadline
+    }
+  }
+}
+
+async function fetchLogs(connection: Connection, signature: string): Promise<string[]> {
+  try {
+    const tx = await connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+    return tx?.meta?.logMessages ?? [];
+  } catch {
+    return [];
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
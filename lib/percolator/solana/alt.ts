@@ -0,0 +1,134 @@
+import {
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { WELL_KNOWN } from "../abi/accounts";
+import { deriveLpPda, deriveVaultAuthority } from "./pda";
+import type { MarketConfig } from "./slab";
+
+// =============================================================================
+// Per-market address lookup tables
+//
+// One table per slab holds every account Percolator instructions on that
+// market reference, so v0 transactions carry 1-byte indexes instead of
+// 32-byte keys. The table address derives from its authority and a recent
+// slot, so whoever creates it must persist it next to the slab; the slab is
+// always the first address, which fetchMarketLookupTable checks.
+// =============================================================================
+
+/** Addresses per extend instruction, keeping each extend tx under the size limit */
+const MAX_ADDRESSES_PER_EXTEND = 20;
+
+export interface MarketLookupLp {
+  idx: number;
+  matcherProgram: PublicKey;
+  matcherContext: PublicKey;
+}
+
+/**
+ * Addresses a market's lookup table should hold: slab first, then vault,
+ * vault authority, collateral mint, oracle feed, sysvars and programs, then
+ * each LP's PDA, matcher program and matcher context. Only the config's
+ * vault, mint and feed are read, so a market can be planned before it exists.
+ */
+export function marketLookupAddresses(
+  programId: PublicKey,
+  slab: PublicKey,
+  config: Pick<MarketConfig, "vaultPubkey" | "collateralMint" | "indexFeedId">,
+  lps: MarketLookupLp[] = []
+): PublicKey[] {
+  const [vaultAuthority] = deriveVaultAuthority(programId, slab);
+  const addresses = [
+    slab,
+    config.vaultPubkey,
+    vaultAuthority,
+    config.collateralMint,
+    config.indexFeedId,
+    programId,
+    WELL_KNOWN.clock,
+    WELL_KNOWN.rent,
+    WELL_KNOWN.tokenProgram,
+    WELL_KNOWN.systemProgram,
+  ];
+  for (const lp of lps) {
+    addresses.push(deriveLpPda(programId, slab, lp.idx)[0], lp.matcherProgram, lp.matcherContext);
+  }
+  return uniqueAddresses(addresses);
+}
+
+/**
+ * Addresses not yet in the table, in order.
+ */
+export function missingLookupAddresses(
+  table: AddressLookupTableAccount | null,
+  addresses: PublicKey[]
+): PublicKey[] {
+  const present = new Set(table?.state.addresses.map(a => a.toBase58()) ?? []);
+  return uniqueAddresses(addresses).filter(a => !present.has(a.toBase58()));
+}
+
+/**
+ * Instructions creating a lookup table. The table address is derived from
+ * the authority and a recent slot, so it is only known after this call.
+ */
+export function buildCreateLookupTableIx(
+  authority: PublicKey,
+  payer: PublicKey,
+  recentSlot: number
+): { lookupTable: PublicKey; instruction: TransactionInstruction } {
+  const [instruction, lookupTable] = AddressLookupTableProgram.createLookupTable({
+    authority,
+    payer,
+    recentSlot,
+  });
+  return { lookupTable, instruction };
+}
+
+/**
+ * Extend instructions for the given addresses, one per chunk. Each should go
+ * in its own transaction; the table can be used one slot after the last.
+ */
+export function buildExtendLookupTableIxs(
+  lookupTable: PublicKey,
+  authority: PublicKey,
+  payer: PublicKey,
+  addresses: PublicKey[]
+): TransactionInstruction[] {
+  const ixs: TransactionInstruction[] = [];
+  for (let i = 0; i < addresses.length; i += MAX_ADDRESSES_PER_EXTEND) {
+    ixs.push(AddressLookupTableProgram.extendLookupTable({
+      lookupTable,
+      authority,
+      payer,
+      addresses: addresses.slice(i, i + MAX_ADDRESSES_PER_EXTEND),
+    }));
+  }
+  return ixs;
+}
+
+/**
+ * Fetch a market's lookup table by its persisted address. Null when the
+ * account is gone, deactivated, or does not start with the slab.
+ */
+export async function fetchMarketLookupTable(
+  connection: Connection,
+  lookupTable: PublicKey,
+  slab: PublicKey
+): Promise<AddressLookupTableAccount | null> {
+  const { value: table } = await connection.getAddressLookupTable(lookupTable);
+  if (!table || !table.isActive()) return null;
+  return table.state.addresses[0]?.equals(slab) ? table : null;
+}
+
+function uniqueAddresses(addresses: PublicKey[]): PublicKey[] {
+  const seen = new Set<string>();
+  return addresses.filter(a => {
+    const key = a.toBase58();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -1,8 +1,10 @@
-import { PublicKey } from "@solana/web3.js";
+import { PublicKey, SystemProgram, TransactionInstruction } from "@solana/web3.js";
 
 const TOKEN_PROGRAM_ID = new PublicKey("TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA");
 const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey("ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL");
 
+export const NATIVE_MINT = new PublicKey("So11111111111111111111111111111111111111112");
+
 /**
  * Get the associated token address for an owner and mint.
  * Derives the ATA without requiring @solana/spl-token package.
@@ -14,3 +16,40 @@ export async function getAta(owner: PublicKey, mint: PublicKey): Promise<PublicK
   );
   return address;
 }
+
+/**
+ * CreateIdempotent: creates the ATA, or does nothing if it already exists.
+ */
+export function createAtaIdempotentIx(
+  payer: PublicKey,
+  ata: PublicKey,
+  owner: PublicKey,
+  mint: PublicKey
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: payer, isSigner: true, isWritable: true },
+      { pubkey: ata, isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: false, isWritable: false },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.from([1]),
+  });
+}
+
+/**
+ * Wrap SOL: transfer lamports into a wSOL token account and sync its balance.
+ */
+export function wrapSolIxs(owner: PublicKey, wsolAta: PublicKey, lamports: bigint): TransactionInstruction[] {
+  return [
+    SystemProgram.transfer({ fromPubkey: owner, toPubkey: wsolAta, lamports }),
+    new TransactionInstruction({
+      programId: TOKEN_PROGRAM_ID,
+      keys: [{ pubkey: wsolAta, isSigner: false, isWritable: true }],
+      data: Buffer.from([17]),   // SyncNative
+    }),
+  ];
+}
@@ -0,0 +1,266 @@
+import { PublicKey } from "@solana/web3.js";
+import {
+  AccountKind,
+  CURRENT_SLAB_LAYOUT,
+  SLAB_HEADER_SCHEMA,
+  SLAB_MAGIC,
+  SLAB_SIZE,
+  slabRegions,
+  type Account,
+  type EngineState,
+  type MarketConfig,
+  type RiskParams,
+  type SlabLayout,
+} from "./slab";
+
+// =============================================================================
+// Synthetic slab builder
+//
+// Produces slab account data from typed inputs so parsing, UI and client
+// logic can run on deterministic data without a live market. Everything
+// not set explicitly is zeroed, apart from the defaults below.
+// =============================================================================
+
+export interface SlabHeaderInput {
+  admin?: PublicKey;
+  bump?: number;
+  flags?: number;
+  resolved?: boolean;           // Sets FLAG_RESOLVED in flags
+  nonce?: bigint;
+  lastThrUpdateSlot?: bigint;
+}
+
+/**
+ * Same risk params createPercolatorMarket uses for new memecoin markets.
+ */
+const DEFAULT_RISK_PARAMS: RiskParams = {
+  warmupPeriodSlots: 100n,
+  maintenanceMarginBps: 500n,        // 5%
+  initialMarginBps: 1000n,           // 10%
+  tradingFeeBps: 10n,                // 0.10%
+  maxAccounts: 4096n,
+  newAccountFee: 1_000_000n,         // 0.001 SOL in lamports
+  riskReductionThreshold: 0n,
+  maintenanceFeePerSlot: 0n,
+  maxCrankStalenessSlots: 1000n,
+  liquidationFeeBps: 100n,           // 1%
+  liquidationFeeCap: 100_000_000n,   // 0.1 SOL
+  liquidationBufferBps: 50n,         // 0.5%
+  minLiquidationAbs: 10_000_000n,    // 0.01 SOL
+};
+
+const FLAG_RESOLVED = 1 << 0;
+
+function emptyConfig(): MarketConfig {
+  return {
+    collateralMint: PublicKey.default,
+    vaultPubkey: PublicKey.default,
+    indexFeedId: PublicKey.default,
+    maxStalenessSlots: 0n,
+    confFilterBps: 0,
+    vaultAuthorityBump: 0,
+    invert: 0,
+    unitScale: 0,
+    fundingHorizonSlots: 0n,
+    fundingKBps: 0n,
+    fundingInvScaleNotionalE6: 0n,
+    fundingMaxPremiumBps: 0n,
+    fundingMaxBpsPerSlot: 0n,
+    threshFloor: 0n,
+    threshRiskBps: 0n,
+    threshUpdateIntervalSlots: 0n,
+    threshStepBps: 0n,
+    threshAlphaBps: 0n,
+    threshMin: 0n,
+    threshMax: 0n,
+    threshMinStep: 0n,
+    oracleAuthority: PublicKey.default,
+    authorityPriceE6: 0n,
+    authorityTimestamp: 0n,
+    oraclePriceCapE2bps: 0n,
+    lastEffectivePriceE6: 0n,
+  };
+}
+
+function emptyEngine(): EngineState {
+  return {
+    vault: 0n,
+    insuranceFund: { balance: 0n, feeRevenue: 0n },
+    currentSlot: 0n,
+    fundingIndexQpbE6: 0n,
+    lastFundingSlot: 0n,
+    fundingRateBpsPerSlotLast: 0n,
+    lastCrankSlot: 0n,
+    maxCrankStalenessSlots: 0n,
+    totalOpenInterest: 0n,
+    cTot: 0n,
+    pnlPosTot: 0n,
+    liqCursor: 0,
+    gcCursor: 0,
+    lastSweepStartSlot: 0n,
+    lastSweepCompleteSlot: 0n,
+    crankCursor: 0,
+    sweepStartIdx: 0,
+    lifetimeLiquidations: 0n,
+    lifetimeForceCloses: 0n,
+    netLpPos: 0n,
+    lpSumAbs: 0n,
+    lpMaxAbs: 0n,
+    lpMaxAbsSweep: 0n,
+    numUsedAccounts: 0,
+    nextAccountId: 0n,
+  };
+}
+
+function emptyAccount(): Account {
+  return {
+    kind: AccountKind.User,
+    accountId: 0n,
+    capital: 0n,
+    pnl: 0n,
+    reservedPnl: 0n,
+    warmupStartedAtSlot: 0n,
+    warmupSlopePerStep: 0n,
+    positionSize: 0n,
+    entryPrice: 0n,
+    fundingIndex: 0n,
+    matcherProgram: PublicKey.default,
+    matcherContext: PublicKey.default,
+    owner: PublicKey.default,
+    feeCredits: 0n,
+    lastFeeSlot: 0n,
+  };
+}
+
+/**
+ * Fluent builder for slab account data.
+ *
+ * Engine aggregates that follow from the account set (numUsedAccounts,
+ * nextAccountId, cTot, pnlPosTot, totalOpenInterest and the LP aggregates)
+ * are derived on build() unless set explicitly via engine().
+ *
+ * @example
+ * const data = new SlabBuilder()
+ *   .header({ admin })
+ *   .config({ collateralMint: NATIVE_MINT, authorityPriceE6: 1_000_000n })
+ *   .account(0, { kind: AccountKind.LP, owner: lp, capital: 10_000_000_000n })
+ *   .account(1, { owner: user, capital: 1_000_000_000n, positionSize: 5_000_000n, entryPrice: 1_000_000n })
+ *   .build();
+ */
+export class SlabBuilder {
+  private headerInput: SlabHeaderInput = {};
+  private configValue: MarketConfig = emptyConfig();
+  private paramsValue: RiskParams = { ...DEFAULT_RISK_PARAMS };
+  private engineInput: Partial<EngineState> = {};
+  private accounts = new Map<number, Account>();
+
+  constructor(
+    private readonly layout: SlabLayout = CURRENT_SLAB_LAYOUT,
+    private readonly size: number = SLAB_SIZE,
+  ) {
+    const minSize = slabRegions(layout).accounts;
+    if (size < minSize) {
+      throw new Error(`Slab size too small: ${size} < ${minSize}`);
+    }
+  }
+
+  /** Header fields (magic and version are always written from the layout) */
+  header(input: SlabHeaderInput): this {
+    this.headerInput = { ...this.headerInput, ...input };
+    return this;
+  }
+
+  config(input: Partial<MarketConfig>): this {
+    this.configValue = { ...this.configValue, ...input };
+    return this;
+  }
+
+  params(input: Partial<RiskParams>): this {
+    this.paramsValue = { ...this.paramsValue, ...input };
+    return this;
+  }
+
+  /** Engine fields. Anything set here overrides the derived aggregates. */
+  engine(input: Partial<EngineState>): this {
+    this.engineInput = { ...this.engineInput, ...input };
+    return this;
+  }
+
+  /**
+   * Place an account at a slot index and mark it used in the bitmap.
+   * accountId defaults to the index.
+   */
+  account(idx: number, input: Partial<Account> = {}): this {
+    const capacity = this.capacity();
+    if (!Number.isInteger(idx) || idx < 0 || idx >= capacity) {
+      throw new Error(`Account index out of range: ${idx} (max: ${capacity - 1})`);
+    }
+    this.accounts.set(idx, { ...emptyAccount(), accountId: BigInt(idx), ...input });
+    return this;
+  }
+
+  /** Number of account slots that fit in the slab */
+  capacity(): number {
+    const fit = Math.floor((this.size - slabRegions(this.layout).accounts) / this.layout.account.size);
+    return Math.min(fit, this.layout.maxAccounts);
+  }
+
+  build(): Buffer {
+    const layout = this.layout;
+    const regions = slabRegions(layout);
+    const data = Buffer.alloc(this.size);
+
+    const h = this.headerInput;
+    const flags = (h.flags ?? 0) | (h.resolved ? FLAG_RESOLVED : 0);
+    SLAB_HEADER_SCHEMA.write(data, {
+      magic: SLAB_MAGIC,
+      version: layout.version,
+      bump: h.bump ?? 0,
+      flags,
+      admin: h.admin ?? PublicKey.default,
+      nonce: h.nonce ?? 0n,
+      lastThrUpdateSlot: h.lastThrUpdateSlot ?? 0n,
+    });
+
+    layout.config.write(data, this.configValue, regions.config);
+    layout.engine.write(data, this.resolveEngine(), regions.engine);
+    layout.params.write(data, this.paramsValue, regions.params);
+
+    for (const [idx, account] of this.accounts) {
+      const word = Math.floor(idx / 64);
+      const off = regions.bitmap + word * 8;
+      data.writeBigUInt64LE(data.readBigUInt64LE(off) | (1n << BigInt(idx % 64)), off);
+      layout.account.write(data, account, regions.accounts + idx * layout.account.size);
+    }
+
+    return data;
+  }
+
+  private resolveEngine(): EngineState {
+    const engine = emptyEngine();
+    engine.maxCrankStalenessSlots = this.paramsValue.maxCrankStalenessSlots;
+
+    for (const a of this.accounts.values()) {
+      if (a.accountId >= engine.nextAccountId) engine.nextAccountId = a.accountId + 1n;
+      engine.cTot += a.capital;
+      if (a.pnl > 0n) engine.pnlPosTot += a.pnl;
+
+      const absPos = a.positionSize < 0n ? -a.positionSize : a.positionSize;
+      engine.totalOpenInterest += absPos;
+      if (a.kind === AccountKind.LP) {
+        engine.netLpPos += a.positionSize;
+        engine.lpSumAbs += absPos;
+        if (absPos > engine.lpMaxAbs) engine.lpMaxAbs = absPos;
+      }
+    }
+    engine.numUsedAccounts = this.accounts.size;
+    engine.lpMaxAbsSweep = engine.lpMaxAbs;
+
+    const resolved = { ...engine, ...this.engineInput };
+    if (this.engineInput.vault === undefined) {
+      // Vault holds all capital plus the insurance fund
+      resolved.vault = resolved.cTot + resolved.insuranceFund.balance;
+    }
+    return resolved;
+  }
+}
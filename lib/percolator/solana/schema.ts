@@ -0,0 +1,238 @@
+import { PublicKey } from "@solana/web3.js";
+import { decU8, decU16, decU32, decU64, decI64, decU128, decI128, decPubkey } from "../abi/decode";
+import { encU8, encU16, encU32, encU64, encI64, encU128, encI128, encPubkey } from "../abi/encode";
+
+// =============================================================================
+// Binary schema DSL for repr(C) slab structs
+//
+// A struct is described once as an ordered list of fields and explicit
+// padding. From that single description we get a reader, a writer and a
+// byte-offset table, so parsing and serialization can never drift apart.
+// No implicit alignment is applied: SBF padding must be spelled out with pad().
+// =============================================================================
+
+export type FieldType = "u8" | "u16" | "u32" | "u64" | "i64" | "u128" | "i128" | "pubkey";
+
+const FIELD_SIZE: Record<FieldType, number> = {
+  u8: 1,
+  u16: 2,
+  u32: 4,
+  u64: 8,
+  i64: 8,
+  u128: 16,
+  i128: 16,
+  pubkey: 32,
+};
+
+type FieldValue<T extends FieldType> =
+  T extends "u8" | "u16" | "u32" ? number :
+  T extends "pubkey" ? PublicKey :
+  bigint;
+
+export interface ScalarField<N extends string = string, T extends FieldType = FieldType> {
+  kind: "field";
+  name: N;
+  type: T;
+}
+
+export interface StructField<N extends string = string, V = unknown> {
+  kind: "struct";
+  name: N;
+  schema: StructSchema<V>;
+}
+
+/**
+ * Explicit padding. A label records the region in the offset table
+ * (e.g. a sub-struct or array parsed elsewhere) without reading it.
+ */
+export interface Padding<L extends string = never> {
+  kind: "pad";
+  size: number;
+  label?: L;
+}
+
+export type SchemaEntry = ScalarField | StructField | Padding<string>;
+
+type EntryName<F> = F extends { kind: "field" | "struct"; name: infer N extends string } ? N : never;
+type EntryValue<F> =
+  F extends ScalarField<string, infer T> ? FieldValue<T> :
+  F extends StructField<string, infer V> ? V :
+  never;
+type PadLabel<F> = F extends Padding<infer L> ? L : never;
+
+export type StructValue<E extends readonly SchemaEntry[]> = {
+  [F in E[number] as EntryName<F>]: EntryValue<F>;
+};
+
+export interface OffsetRow {
+  name: string;
+  type: FieldType | "pad";
+  offset: number;
+  size: number;
+}
+
+export interface StructSchema<V, K extends string = string> {
+  name: string;
+  size: number;
+  entries: readonly SchemaEntry[];
+  /** Byte offset of every named field and labeled pad, relative to the struct start */
+  offsets: Readonly<Record<K, number>>;
+  /** Flattened layout (nested structs expanded as `outer.inner`) for docs/debugging */
+  table: readonly OffsetRow[];
+  read(buf: Buffer, base?: number): V;
+  /** Write fields in place. Padding bytes are left untouched. */
+  write(buf: Buffer, value: V, base?: number): void;
+  serialize(value: V): Buffer;
+}
+
+// =============================================================================
+// Field builders
+// =============================================================================
+
+const scalar = <T extends FieldType>(type: T) =>
+  <N extends string>(name: N): ScalarField<N, T> => ({ kind: "field", name, type });
+
+export const u8 = scalar("u8");
+export const u16 = scalar("u16");
+export const u32 = scalar("u32");
+export const u64 = scalar("u64");
+export const i64 = scalar("i64");
+export const u128 = scalar("u128");
+export const i128 = scalar("i128");
+export const pubkey = scalar("pubkey");
+
+export function pad(size: number): Padding;
+export function pad<L extends string>(size: number, label: L): Padding<L>;
+export function pad(size: number, label?: string): Padding<string> {
+  return { kind: "pad", size, label };
+}
+
+export function struct<N extends string, V>(name: N, schema: StructSchema<V>): StructField<N, V> {
+  return { kind: "struct", name, schema };
+}
+
+// =============================================================================
+// Scalar codecs
+// =============================================================================
+
+function readScalar(buf: Buffer, off: number, type: FieldType): number | bigint | PublicKey {
+  switch (type) {
+    case "u8": return decU8(buf, off);
+    case "u16": return decU16(buf, off);
+    case "u32": return decU32(buf, off);
+    case "u64": return decU64(buf, off);
+    case "i64": return decI64(buf, off);
+    case "u128": return decU128(buf, off);
+    case "i128": return decI128(buf, off);
+    case "pubkey": return decPubkey(buf, off);
+  }
+}
+
+function encodeScalar(value: unknown, type: FieldType): Buffer {
+  switch (type) {
+    case "u8": return encU8(value as number);
+    case "u16": return encU16(value as number);
+    case "u32": return encU32(value as number);
+    case "u64": return encU64(value as bigint);
+    case "i64": return encI64(value as bigint);
+    case "u128": return encU128(value as bigint);
+    case "i128": return encI128(value as bigint);
+    case "pubkey": return encPubkey(value as PublicKey);
+  }
+}
+
+function entrySize(entry: SchemaEntry): number {
+  switch (entry.kind) {
+    case "field": return FIELD_SIZE[entry.type];
+    case "struct": return entry.schema.size;
+    case "pad": return entry.size;
+  }
+}
+
+// =============================================================================
+// Struct definition
+// =============================================================================
+
+/**
+ * Define a struct schema. Field names and value types are inferred from the
+ * entries, so the result can be checked against the hand-written interface.
+ */
+export function defineStruct<const E extends readonly SchemaEntry[]>(
+  name: string,
+  entries: E,
+): StructSchema<StructValue<E>, EntryName<E[number]> | PadLabel<E[number]>> {
+  type V = StructValue<E>;
+
+  const offsets: Record<string, number> = {};
+  const table: OffsetRow[] = [];
+  const placed: { entry: SchemaEntry; offset: number }[] = [];
+
+  let size = 0;
+  for (const entry of entries) {
+    const len = entrySize(entry);
+    if (entry.kind === "pad") {
+      if (entry.label) offsets[entry.label] = size;
+      table.push({ name: entry.label ?? "_padding", type: "pad", offset: size, size: len });
+    } else {
+      if (entry.name in offsets) {
+        throw new Error(`${name}: duplicate field "${entry.name}"`);
+      }
+      offsets[entry.name] = size;
+      if (entry.kind === "field") {
+        table.push({ name: entry.name, type: entry.type, offset: size, size: len });
+      } else {
+        for (const row of entry.schema.table) {
+          table.push({ ...row, name: `${entry.name}.${row.name}`, offset: size + row.offset });
+        }
+      }
+    }
+    placed.push({ entry, offset: size });
+    size += len;
+  }
+
+  const read = (buf: Buffer, base: number = 0): V => {
+    if (buf.length < base + size) {
+      throw new Error(`${name}: buffer too short (need ${base + size} bytes, got ${buf.length})`);
+    }
+    const out: Record<string, unknown> = {};
+    for (const { entry, offset } of placed) {
+      if (entry.kind === "field") {
+        out[entry.name] = readScalar(buf, base + offset, entry.type);
+      } else if (entry.kind === "struct") {
+        out[entry.name] = entry.schema.read(buf, base + offset);
+      }
+    }
+    return out as V;
+  };
+
+  const write = (buf: Buffer, value: V, base: number = 0): void => {
+    if (buf.length < base + size) {
+      throw new Error(`${name}: buffer too short (need ${base + size} bytes, got ${buf.length})`);
+    }
+    const fields = value as Record<string, unknown>;
+    for (const { entry, offset } of placed) {
+      if (entry.kind === "field") {
+        const v = fields[entry.name];
+        if (v === undefined) throw new Error(`${name}: missing field "${entry.name}"`);
+        encodeScalar(v, entry.type).copy(buf, base + offset);
+      } else if (entry.kind === "struct") {
+        entry.schema.write(buf, fields[entry.name], base + offset);
+      }
+    }
+  };
+
+  return {
+    name,
+    size,
+    entries,
+    offsets: offsets as Record<EntryName<E[number]> | PadLabel<E[number]>, number>,
+    table,
+    read,
+    write,
+    serialize: (value: V) => {
+      const buf = Buffer.alloc(size);
+      write(buf, value);
+      return buf;
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { PublicKey } from "@solana/web3.js";
+import { SlabBuilder } from "./builder";
+import {
+  AccountKind,
+  CURRENT_SLAB_LAYOUT,
+  SLAB_HEADER_SCHEMA,
+  detectSlabLayout,
+  getSlabLayout,
+  isAccountUsed,
+  parseAccount,
+  parseAllAccounts,
+  parseHeader,
+  parseParams,
+} from "./slab";
+
+const owner = new PublicKey(Buffer.alloc(32, 7));
+
+function buildSlab(): Buffer {
+  return new SlabBuilder()
+    .params({ warmupPeriodSlots: 250n })
+    .account(0, { kind: AccountKind.LP, capital: 10_000_000_000n })
+    .account(3, { owner, capital: 1_000_000_000n, positionSize: -5_000_000n, entryPrice: 1_000_000n })
+    .build();
+}
+
+function withVersion(data: Buffer, version: number): Buffer {
+  const copy = Buffer.from(data);
+  copy.writeUInt32LE(version, SLAB_HEADER_SCHEMA.offsets.version);
+  return copy;
+}
+
+describe("slab layout selection", () => {
+  it("selects the registered layout from the header version", () => {
+    expect(detectSlabLayout(buildSlab())).toBe(CURRENT_SLAB_LAYOUT);
+  });
+
+  it("rejects unregistered versions instead of reading them with v1 offsets", () => {
+    for (const version of [0, 2, 0xffffffff]) {
+      const data = withVersion(buildSlab(), version);
+      expect(parseHeader(data).version).toBe(version);
+      expect(() => detectSlabLayout(data)).toThrow(`Unsupported slab layout v${version}`);
+      expect(() => parseParams(data)).toThrow(/Unsupported slab layout/);
+      expect(() => parseAllAccounts(data)).toThrow(/Unsupported slab layout/);
+    }
+  });
+
+  it("looks up registered layouts by version", () => {
+    expect(getSlabLayout(CURRENT_SLAB_LAYOUT.version)).toBe(CURRENT_SLAB_LAYOUT);
+    expect(() => getSlabLayout(0)).toThrow(/Unsupported slab layout v0/);
+  });
+});
+
+describe("account parsing", () => {
+  it("parses the same accounts with or without an explicit layout", () => {
+    const data = buildSlab();
+    const all = parseAllAccounts(data);
+
+    expect(all).toHaveLength(2);
+    expect(all[1].account.owner.equals(owner)).toBe(true);
+    expect(all[1].account.positionSize).toBe(-5_000_000n);
+    expect(parseAccount(data, 3, CURRENT_SLAB_LAYOUT)).toEqual(parseAccount(data, 3));
+    expect(isAccountUsed(data, 3, CURRENT_SLAB_LAYOUT)).toBe(true);
+    expect(isAccountUsed(data, 1, CURRENT_SLAB_LAYOUT)).toBe(false);
+  });
+});
@@ -1,19 +1,23 @@
 import { Connection, PublicKey } from "@solana/web3.js";
+import {
+  defineStruct,
+  struct,
+  pad,
+  u8,
+  u16,
+  u32,
+  u64,
+  i64,
+  u128,
+  i128,
+  pubkey,
+  type StructSchema,
+} from "./schema";
 
 // Constants from Rust (updated for funding/threshold params 2026-01)
-const MAGIC: bigint = 0x504552434f4c4154n; // "PERCOLAT"
-const HEADER_LEN = 72;    // SlabHeader: magic(8) + version(4) + bump(1) + _padding(3) + admin(32) + _reserved(24)
-const CONFIG_OFFSET = HEADER_LEN;  // MarketConfig starts right after header
-// MarketConfig: collateral_mint(32) + vault_pubkey(32) + index_feed_id(32) + max_staleness_secs(8) +
-//               conf_filter_bps(2) + bump(1) + invert(1) + unit_scale(4) +
-//               funding_horizon_slots(8) + funding_k_bps(8) + funding_inv_scale_notional_e6(16) +
-//               funding_max_premium_bps(8) + funding_max_bps_per_slot(8) +
-//               thresh_floor(16) + thresh_risk_bps(8) + thresh_update_interval_slots(8) +
-//               thresh_step_bps(8) + thresh_alpha_bps(8) + thresh_min(16) + thresh_max(16) + thresh_min_step(16) +
-//               oracle_authority(32) + authority_price_e6(8) + authority_timestamp(8) +
-//               oracle_price_cap_e2bps(8) + last_effective_price_e6(8)
-const CONFIG_LEN = 320;
-const RESERVED_OFF = 48;  // Offset of _reserved field within SlabHeader
+export const SLAB_MAGIC: bigint = 0x504552434f4c4154n; // "PERCOLAT"
+// Slab account size: ~1MB to fit up to 4096 accounts (meme-liquid standard)
+export const SLAB_SIZE = 1_048_576; // 1 MB
 
 // Flag bits in header._padding[0] at offset 13
 const FLAG_RESOLVED = 1 << 0;
@@ -70,299 +74,6 @@ export interface MarketConfig {
   lastEffectivePriceE6: bigint;
 }
 
-/**
- * Fetch raw slab account data.
- */
-export async function fetchSlab(
-  connection: Connection,
-  slabPubkey: PublicKey
-): Promise<Buffer> {
-  const info = await connection.getAccountInfo(slabPubkey);
-  if (!info) {
-    throw new Error(`Slab account not found: ${slabPubkey.toBase58()}`);
-  }
-  return Buffer.from(info.data);
-}
-
-/**
- * Parse slab header (first 64 bytes).
- */
-export function parseHeader(data: Buffer): SlabHeader {
-  if (data.length < HEADER_LEN) {
-    throw new Error(`Slab data too short for header: ${data.length} < ${HEADER_LEN}`);
-  }
-
-  const magic = data.readBigUInt64LE(0);
-  if (magic !== MAGIC) {
-    throw new Error(`Invalid slab magic: expected ${MAGIC.toString(16)}, got ${magic.toString(16)}`);
-  }
-
-  const version = data.readUInt32LE(8);
-  const bump = data.readUInt8(12);
-  const flags = data.readUInt8(13);  // _padding[0] contains flags
-  const admin = new PublicKey(data.subarray(16, 48));
-
-  // Reserved field: nonce at [0..8], lastThrUpdateSlot at [8..16]
-  const nonce = data.readBigUInt64LE(RESERVED_OFF);
-  const lastThrUpdateSlot = data.readBigUInt64LE(RESERVED_OFF + 8);
-
-  return {
-    magic,
-    version,
-    bump,
-    flags,
-    resolved: (flags & FLAG_RESOLVED) !== 0,
-    admin,
-    nonce,
-    lastThrUpdateSlot,
-  };
-}
-
-/**
- * Parse market config (starts at byte 72).
- * Layout: collateral_mint(32) + vault_pubkey(32) + index_feed_id(32)
- *         + max_staleness_secs(8) + conf_filter_bps(2) + vault_authority_bump(1) + invert(1) + unit_scale(4)
- */
-export function parseConfig(data: Buffer): MarketConfig {
-  const minLen = CONFIG_OFFSET + CONFIG_LEN;
-  if (data.length < minLen) {
-    throw new Error(`Slab data too short for config: ${data.length} < ${minLen}`);
-  }
-
-  let off = CONFIG_OFFSET;
-
-  const collateralMint = new PublicKey(data.subarray(off, off + 32));
-  off += 32;
-
-  const vaultPubkey = new PublicKey(data.subarray(off, off + 32));
-  off += 32;
-
-  // index_feed_id (32 bytes) - Pyth feed ID, stored as 32 bytes
-  const indexFeedId = new PublicKey(data.subarray(off, off + 32));
-  off += 32;
-
-  const maxStalenessSlots = data.readBigUInt64LE(off);
-  off += 8;
-
-  const confFilterBps = data.readUInt16LE(off);
-  off += 2;
-
-  const vaultAuthorityBump = data.readUInt8(off);
-  off += 1;
-
-  const invert = data.readUInt8(off);
-  off += 1;
-
-  const unitScale = data.readUInt32LE(off);
-  off += 4;
-
-  // Funding rate parameters
-  const fundingHorizonSlots = data.readBigUInt64LE(off);
-  off += 8;
-
-  const fundingKBps = data.readBigUInt64LE(off);
-  off += 8;
-
-  const fundingInvScaleNotionalE6 = readI128LE(data, off);
-  off += 16;
-
-  const fundingMaxPremiumBps = data.readBigUInt64LE(off);
-  off += 8;
-
-  const fundingMaxBpsPerSlot = data.readBigUInt64LE(off);
-  off += 8;
-
-  // Threshold parameters
-  const threshFloor = readU128LE(data, off);
-  off += 16;
-
-  const threshRiskBps = data.readBigUInt64LE(off);
-  off += 8;
-
-  const threshUpdateIntervalSlots = data.readBigUInt64LE(off);
-  off += 8;
-
-  const threshStepBps = data.readBigUInt64LE(off);
-  off += 8;
-
-  const threshAlphaBps = data.readBigUInt64LE(off);
-  off += 8;
-
-  const threshMin = readU128LE(data, off);
-  off += 16;
-
-  const threshMax = readU128LE(data, off);
-  off += 16;
-
-  const threshMinStep = readU128LE(data, off);
-  off += 16;
-
-  // Oracle authority fields
-  const oracleAuthority = new PublicKey(data.subarray(off, off + 32));
-  off += 32;
-
-  const authorityPriceE6 = data.readBigUInt64LE(off);
-  off += 8;
-
-  const authorityTimestamp = data.readBigInt64LE(off);
-  off += 8;
-
-  // Oracle price circuit breaker
-  const oraclePriceCapE2bps = data.readBigUInt64LE(off);
-  off += 8;
-
-  const lastEffectivePriceE6 = data.readBigUInt64LE(off);
-
-  return {
-    collateralMint,
-    vaultPubkey,
-    indexFeedId,
-    maxStalenessSlots,
-    confFilterBps,
-    vaultAuthorityBump,
-    invert,
-    unitScale,
-    fundingHorizonSlots,
-    fundingKBps,
-    fundingInvScaleNotionalE6,
-    fundingMaxPremiumBps,
-    fundingMaxBpsPerSlot,
-    threshFloor,
-    threshRiskBps,
-    threshUpdateIntervalSlots,
-    threshStepBps,
-    threshAlphaBps,
-    threshMin,
-    threshMax,
-    threshMinStep,
-    oracleAuthority,
-    authorityPriceE6,
-    authorityTimestamp,
-    oraclePriceCapE2bps,
-    lastEffectivePriceE6,
-  };
-}
-
-/**
- * Read nonce from slab header reserved field.
- */
-export function readNonce(data: Buffer): bigint {
-  if (data.length < RESERVED_OFF + 8) {
-    throw new Error("Slab data too short for nonce");
-  }
-  return data.readBigUInt64LE(RESERVED_OFF);
-}
-
-/**
- * Read last threshold update slot from slab header reserved field.
- */
-export function readLastThrUpdateSlot(data: Buffer): bigint {
-  if (data.length < RESERVED_OFF + 16) {
-    throw new Error("Slab data too short for lastThrUpdateSlot");
-  }
-  return data.readBigUInt64LE(RESERVED_OFF + 8);
-}
-
-// =============================================================================
-// RiskEngine Layout Constants (updated for haircut-ratio refactor 2026-02)
-// ENGINE_OFF = HEADER_LEN + CONFIG_LEN = 72 + 320 = 392
-//
-// The ADL/socialization system was replaced with O(1) haircut ratio.
-// Removed: loss_accum, risk_reduction_only, warmup_paused, warmed totals,
-//          adl_*_scratch arrays, pending_* deferred socialization fields.
-// Added: c_tot, pnl_pos_tot (O(1) aggregates for haircut calculation).
-// =============================================================================
-const ENGINE_OFF = 392;
-// RiskEngine struct layout (repr(C), SBF uses 8-byte alignment for u128):
-// - vault: u128 (16 bytes) at offset 0
-// - insurance_fund: InsuranceFund { balance: u128, fee_revenue: u128 } (32 bytes) at offset 16
-// - params: RiskParams (144 bytes) at offset 48
-const ENGINE_VAULT_OFF = 0;
-const ENGINE_INSURANCE_OFF = 16;
-const ENGINE_PARAMS_OFF = 48;         // RiskParams starts here (after vault+insurance_fund)
-// After RiskParams (at engine offset 48 + 144 = 192):
-const ENGINE_CURRENT_SLOT_OFF = 192;
-const ENGINE_FUNDING_INDEX_OFF = 200;   // I128 (16 bytes)
-const ENGINE_LAST_FUNDING_SLOT_OFF = 216;
-const ENGINE_FUNDING_RATE_BPS_OFF = 224;// i64: funding_rate_bps_per_slot_last (8 bytes) - was missing!
-const ENGINE_LAST_CRANK_SLOT_OFF = 232;
-const ENGINE_MAX_CRANK_STALENESS_OFF = 240;
-const ENGINE_TOTAL_OI_OFF = 248;        // U128 (16 bytes)
-const ENGINE_C_TOT_OFF = 264;           // U128: sum of all account capital
-const ENGINE_PNL_POS_TOT_OFF = 280;     // U128: sum of all positive PnL
-const ENGINE_LIQ_CURSOR_OFF = 296;      // u16
-const ENGINE_GC_CURSOR_OFF = 298;       // u16
-// 4 bytes padding for u64 alignment
-const ENGINE_LAST_SWEEP_START_OFF = 304;
-const ENGINE_LAST_SWEEP_COMPLETE_OFF = 312;
-const ENGINE_CRANK_CURSOR_OFF = 320;    // u16
-const ENGINE_SWEEP_START_IDX_OFF = 322; // u16
-// 4 bytes padding for u64 alignment
-const ENGINE_LIFETIME_LIQUIDATIONS_OFF = 328;
-const ENGINE_LIFETIME_FORCE_CLOSES_OFF = 336;
-// LP Aggregates for funding rate calculation
-const ENGINE_NET_LP_POS_OFF = 344;      // I128
-const ENGINE_LP_SUM_ABS_OFF = 360;      // U128
-const ENGINE_LP_MAX_ABS_OFF = 376;      // U128
-const ENGINE_LP_MAX_ABS_SWEEP_OFF = 392;// U128
-// Bitmap: 64 u64 words = 512 bytes
-const ENGINE_BITMAP_OFF = 408;
-// After bitmap (408 + 512 = 920):
-const ENGINE_NUM_USED_OFF = 920;        // u16
-// 6 bytes padding for u64 alignment
-const ENGINE_NEXT_ACCOUNT_ID_OFF = 928; // u64
-const ENGINE_FREE_HEAD_OFF = 936;       // u16
-// _padding_accounts: [u8; 6] at 938-943 for next_free alignment
-// next_free: [u16; 4096] at 944-9135
-// 8 bytes padding for Account alignment (u128)
-const ENGINE_ACCOUNTS_OFF = 9136;       // accounts: [Account; 4096]
-
-const BITMAP_WORDS = 64;
-const MAX_ACCOUNTS = 4096;
-const ACCOUNT_SIZE = 240;  // Account._padding removed (was 248)
-
-// =============================================================================
-// RiskParams Layout (144 bytes, repr(C) with 8-byte alignment on SBF)
-// Note: SBF target uses 8-byte alignment for u128, not 16-byte
-// Verified via verify-layout.cjs against devnet 2024-01
-// =============================================================================
-const PARAMS_WARMUP_PERIOD_OFF = 0;        // u64
-const PARAMS_MAINTENANCE_MARGIN_OFF = 8;   // u64
-const PARAMS_INITIAL_MARGIN_OFF = 16;      // u64
-const PARAMS_TRADING_FEE_OFF = 24;         // u64
-const PARAMS_MAX_ACCOUNTS_OFF = 32;        // u64
-const PARAMS_NEW_ACCOUNT_FEE_OFF = 40;     // u128 (no padding, 8-byte aligned)
-const PARAMS_RISK_THRESHOLD_OFF = 56;      // u128
-const PARAMS_MAINTENANCE_FEE_OFF = 72;     // u128
-const PARAMS_MAX_CRANK_STALENESS_OFF = 88; // u64
-const PARAMS_LIQUIDATION_FEE_BPS_OFF = 96; // u64
-const PARAMS_LIQUIDATION_FEE_CAP_OFF = 104;// u128
-const PARAMS_LIQUIDATION_BUFFER_OFF = 120; // u64
-const PARAMS_MIN_LIQUIDATION_OFF = 128;    // u128 (total = 144 bytes)
-
-// =============================================================================
-// Account Layout (248 bytes, repr(C))
-// NOTE: Despite U128/I128 wrapper types in Rust, on-chain layout remains unchanged
-// Field order: account_id, capital, kind, pnl, reserved_pnl, warmup_started,
-//              warmup_slope, position_size, entry_price, funding_index,
-//              matcher_program, matcher_context, owner, fee_credits, last_fee_slot
-// =============================================================================
-const ACCT_ACCOUNT_ID_OFF = 0;        // accountId (u64, 8 bytes), ends at 8
-const ACCT_CAPITAL_OFF = 8;           // capital (U128, 16 bytes), ends at 24
-const ACCT_KIND_OFF = 24;             // kind (u8, 1 byte + 7 padding), ends at 32
-const ACCT_PNL_OFF = 32;              // pnl (I128, 16 bytes), ends at 48
-const ACCT_RESERVED_PNL_OFF = 48;     // reserved_pnl (u64, 8 bytes), ends at 56
-const ACCT_WARMUP_STARTED_OFF = 56;   // warmup_started (u64, 8 bytes), ends at 64
-const ACCT_WARMUP_SLOPE_OFF = 64;     // warmup_slope (U128, 16 bytes), ends at 80
-const ACCT_POSITION_SIZE_OFF = 80;    // position_size (I128, 16 bytes), ends at 96
-const ACCT_ENTRY_PRICE_OFF = 96;      // entry_price (u64, 8 bytes), ends at 104
-const ACCT_FUNDING_INDEX_OFF = 104;   // funding_index (I128, 16 bytes), ends at 120
-const ACCT_MATCHER_PROGRAM_OFF = 120; // matcher_program (Pubkey, 32 bytes), ends at 152
-const ACCT_MATCHER_CONTEXT_OFF = 152; // matcher_context (Pubkey, 32 bytes), ends at 184
-const ACCT_OWNER_OFF = 184;           // owner (Pubkey, 32 bytes), ends at 216
-const ACCT_FEE_CREDITS_OFF = 216;     // fee_credits (I128, 16 bytes), ends at 232
-const ACCT_LAST_FEE_SLOT_OFF = 232;   // last_fee_slot (u64, 8 bytes), ends at 240
-
 // =============================================================================
 // Interfaces
 // =============================================================================
@@ -441,25 +152,244 @@ export interface Account {
 }
 
 // =============================================================================
-// Helper: read signed i128 from buffer
-// Match Rust's I128 wrapper: read both halves as unsigned, then interpret as signed
+// Struct Schemas (repr(C), SBF uses 8-byte alignment for u128)
+//
+// Each struct is described once; its reader, writer and offset table are
+// generated from the description. Alignment padding is spelled out.
 // =============================================================================
-function readI128LE(buf: Buffer, offset: number): bigint {
-  const lo = buf.readBigUInt64LE(offset);
-  const hi = buf.readBigUInt64LE(offset + 8);
-  const unsigned = (hi << 64n) | lo;
-  // If high bit is set, convert to negative (two's complement)
-  const SIGN_BIT = 1n << 127n;
-  if (unsigned >= SIGN_BIT) {
-    return unsigned - (1n << 128n);
+
+/**
+ * SlabHeader: magic(8) + version(4) + bump(1) + _padding(3) + admin(32) + _reserved(24)
+ * Version-independent, so the version can be read before a layout is chosen.
+ */
+export const SLAB_HEADER_SCHEMA = defineStruct("SlabHeader", [
+  u64("magic"),
+  u32("version"),
+  u8("bump"),
+  u8("flags"),                        // _padding[0] contains flags
+  pad(2),
+  pubkey("admin"),
+  u64("nonce"),                       // _reserved[0..8]
+  u64("lastThrUpdateSlot"),           // _reserved[8..16]
+  pad(8),
+]) satisfies StructSchema<Omit<SlabHeader, "resolved">>;
+
+const MARKET_CONFIG_V1 = defineStruct("MarketConfig", [
+  pubkey("collateralMint"),
+  pubkey("vaultPubkey"),
+  pubkey("indexFeedId"),              // Pyth feed ID, stored as 32 bytes
+  u64("maxStalenessSlots"),           // max_staleness_secs
+  u16("confFilterBps"),
+  u8("vaultAuthorityBump"),
+  u8("invert"),
+  u32("unitScale"),
+  // Funding rate parameters
+  u64("fundingHorizonSlots"),
+  u64("fundingKBps"),
+  i128("fundingInvScaleNotionalE6"),
+  u64("fundingMaxPremiumBps"),
+  u64("fundingMaxBpsPerSlot"),
+  // Threshold parameters
+  u128("threshFloor"),
+  u64("threshRiskBps"),
+  u64("threshUpdateIntervalSlots"),
+  u64("threshStepBps"),
+  u64("threshAlphaBps"),
+  u128("threshMin"),
+  u128("threshMax"),
+  u128("threshMinStep"),
+  // Oracle authority
+  pubkey("oracleAuthority"),
+  u64("authorityPriceE6"),
+  i64("authorityTimestamp"),
+  // Oracle price circuit breaker
+  u64("oraclePriceCapE2bps"),
+  u64("lastEffectivePriceE6"),        // total = 320 bytes
+]) satisfies StructSchema<MarketConfig>;
+
+/**
+ * RiskParams (144 bytes). SBF aligns u128 to 8 bytes, so no padding is needed.
+ * Verified via verify-layout.cjs against devnet 2024-01
+ */
+const RISK_PARAMS_V1 = defineStruct("RiskParams", [
+  u64("warmupPeriodSlots"),
+  u64("maintenanceMarginBps"),
+  u64("initialMarginBps"),
+  u64("tradingFeeBps"),
+  u64("maxAccounts"),
+  u128("newAccountFee"),
+  u128("riskReductionThreshold"),
+  u128("maintenanceFeePerSlot"),
+  u64("maxCrankStalenessSlots"),
+  u64("liquidationFeeBps"),
+  u128("liquidationFeeCap"),
+  u64("liquidationBufferBps"),
+  u128("minLiquidationAbs"),
+]) satisfies StructSchema<RiskParams>;
+
+const INSURANCE_FUND_V1 = defineStruct("InsuranceFund", [
+  u128("balance"),
+  u128("feeRevenue"),
+]) satisfies StructSchema<InsuranceFund>;
+
+/**
+ * RiskEngine scalars, up to the next_free array. RiskParams and the bitmap
+ * are labeled pads: they are parsed on their own.
+ *
+ * The ADL/socialization system was replaced with O(1) haircut ratio.
+ * Removed: loss_accum, risk_reduction_only, warmup_paused, warmed totals,
+ *          adl_*_scratch arrays, pending_* deferred socialization fields.
+ * Added: c_tot, pnl_pos_tot (O(1) aggregates for haircut calculation).
+ */
+const ENGINE_V1 = defineStruct("EngineState", [
+  u128("vault"),
+  struct("insuranceFund", INSURANCE_FUND_V1),
+  pad(144, "params"),                 // RiskParams
+  u64("currentSlot"),
+  i128("fundingIndexQpbE6"),
+  u64("lastFundingSlot"),
+  i64("fundingRateBpsPerSlotLast"),
+  u64("lastCrankSlot"),
+  u64("maxCrankStalenessSlots"),
+  u128("totalOpenInterest"),
+  u128("cTot"),                       // sum of all account capital
+  u128("pnlPosTot"),                  // sum of all positive PnL
+  u16("liqCursor"),
+  u16("gcCursor"),
+  pad(4),                             // u64 alignment
+  u64("lastSweepStartSlot"),
+  u64("lastSweepCompleteSlot"),
+  u16("crankCursor"),
+  u16("sweepStartIdx"),
+  pad(4),                             // u64 alignment
+  u64("lifetimeLiquidations"),
+  u64("lifetimeForceCloses"),
+  // LP Aggregates for funding rate calculation
+  i128("netLpPos"),
+  u128("lpSumAbs"),
+  u128("lpMaxAbs"),
+  u128("lpMaxAbsSweep"),
+  pad(512, "bitmap"),                 // 64 u64 words
+  u16("numUsedAccounts"),
+  pad(6),                             // u64 alignment
+  u64("nextAccountId"),
+  pad(2, "freeHead"),                 // u16
+  pad(6),                             // _padding_accounts for next_free alignment
+]) satisfies StructSchema<EngineState, EngineOffsetKey>;
+
+/**
+ * Account (240 bytes). Account._padding removed (was 248).
+ * NOTE: Despite U128/I128 wrapper types in Rust, on-chain layout remains unchanged
+ */
+const ACCOUNT_V1 = defineStruct("Account", [
+  u64("accountId"),
+  u128("capital"),
+  u8("kind"),
+  pad(7),
+  i128("pnl"),
+  u64("reservedPnl"),
+  u64("warmupStartedAtSlot"),
+  u128("warmupSlopePerStep"),
+  i128("positionSize"),
+  u64("entryPrice"),
+  i128("fundingIndex"),
+  pubkey("matcherProgram"),
+  pubkey("matcherContext"),
+  pubkey("owner"),
+  i128("feeCredits"),
+  u64("lastFeeSlot"),
+]) satisfies StructSchema<Account>;
+
+// =============================================================================
+// Slab Layouts (keyed on SlabHeader.version)
+//
+// Every offset below the header depends on the program version that wrote
+// the slab. Layouts are registered here and selected at parse time from
+// parseHeader().version, so a slab from an unknown program fails loudly
+// instead of being read with the wrong offsets.
+// =============================================================================
+
+/**
+ * Named regions of the engine struct: its fields plus the labeled pads.
+ */
+export type EngineOffsetKey = keyof EngineState | "params" | "bitmap" | "freeHead";
+
+/**
+ * Schemas of one slab version. The engine struct is followed by
+ * next_free: [u16; maxAccounts], then the accounts array.
+ */
+export interface SlabLayout {
+  version: number;
+  configOff: number;
+  config: StructSchema<MarketConfig>;
+  engineOff: number;
+  engine: StructSchema<EngineState, EngineOffsetKey>;
+  params: StructSchema<RiskParams>;
+  account: StructSchema<Account>;
+  bitmapWords: number;
+  maxAccounts: number;
+}
+
+/**
+ * v1 — haircut-ratio engine (2026-02), funding/threshold config (2026-01).
+ */
+const LAYOUT_V1: SlabLayout = {
+  version: 1,
+  configOff: SLAB_HEADER_SCHEMA.size,                           // 72
+  config: MARKET_CONFIG_V1,
+  engineOff: SLAB_HEADER_SCHEMA.size + MARKET_CONFIG_V1.size,   // 72 + 320 = 392
+  engine: ENGINE_V1,
+  params: RISK_PARAMS_V1,
+  account: ACCOUNT_V1,
+  bitmapWords: 64,
+  maxAccounts: 4096,
+};
+
+/**
+ * Registered layouts by SlabHeader.version.
+ */
+export const SLAB_LAYOUTS: Readonly<Record<number, SlabLayout>> = {
+  [LAYOUT_V1.version]: LAYOUT_V1,
+};
+
+/**
+ * Layout written by the currently deployed program.
+ */
+export const CURRENT_SLAB_LAYOUT: SlabLayout = LAYOUT_V1;
+
+/**
+ * Look up a registered layout by version. Throws for unknown versions.
+ */
+export function getSlabLayout(version: number): SlabLayout {
+  const layout = SLAB_LAYOUTS[version];
+  if (!layout) {
+    const known = Object.keys(SLAB_LAYOUTS).map(v => `v${v}`).join(", ");
+    throw new Error(`Unsupported slab layout v${version} (supported: ${known})`);
   }
-  return unsigned;
+  return layout;
 }
 
-function readU128LE(buf: Buffer, offset: number): bigint {
-  const lo = buf.readBigUInt64LE(offset);
-  const hi = buf.readBigUInt64LE(offset + 8);
-  return (hi << 64n) | lo;
+/**
+ * Select the layout for raw slab data from its header version.
+ * Throws for versions with no registered layout.
+ */
+export function detectSlabLayout(data: Buffer): SlabLayout {
+  return getSlabLayout(parseHeader(data).version);
+}
+
+/**
+ * Absolute byte offsets of the slab regions for a layout.
+ */
+export function slabRegions(layout: SlabLayout) {
+  const e = layout.engine;
+  return {
+    config: layout.configOff,
+    engine: layout.engineOff,
+    params: layout.engineOff + e.offsets.params,
+    bitmap: layout.engineOff + e.offsets.bitmap,
+    nextFree: layout.engineOff + e.size,
+    accounts: layout.engineOff + e.size + layout.maxAccounts * 2,
+  };
 }
 
 // =============================================================================
@@ -467,85 +397,109 @@ function readU128LE(buf: Buffer, offset: number): bigint {
 // =============================================================================
 
 /**
- * Parse RiskParams from engine data.
- * Note: invert/unitScale are in MarketConfig, not RiskParams.
+ * Fetch raw slab account data.
  */
-export function parseParams(data: Buffer): RiskParams {
-  const base = ENGINE_OFF + ENGINE_PARAMS_OFF;
-  if (data.length < base + 160) {  // RiskParams is 160 bytes with repr(C) padding
-    throw new Error("Slab data too short for RiskParams");
+export async function fetchSlab(
+  connection: Connection,
+  slabPubkey: PublicKey
+): Promise<Buffer> {
+  const info = await connection.getAccountInfo(slabPubkey);
+  if (!info) {
+    throw new Error(`Slab account not found: ${slabPubkey.toBase58()}`);
+  }
+  return Buffer.from(info.data);
+}
+
+/**
+ * Parse slab header (first 72 bytes).
+ */
+export function parseHeader(data: Buffer): SlabHeader {
+  const headerLen = SLAB_HEADER_SCHEMA.size;
+  if (data.length < headerLen) {
+    throw new Error(`Slab data too short for header: ${data.length} < ${headerLen}`);
+  }
+
+  const magic = data.readBigUInt64LE(0);
+  if (magic !== SLAB_MAGIC) {
+    throw new Error(`Invalid slab magic: expected ${SLAB_MAGIC.toString(16)}, got ${magic.toString(16)}`);
   }
 
+  const header = SLAB_HEADER_SCHEMA.read(data);
   return {
-    warmupPeriodSlots: data.readBigUInt64LE(base + PARAMS_WARMUP_PERIOD_OFF),
-    maintenanceMarginBps: data.readBigUInt64LE(base + PARAMS_MAINTENANCE_MARGIN_OFF),
-    initialMarginBps: data.readBigUInt64LE(base + PARAMS_INITIAL_MARGIN_OFF),
-    tradingFeeBps: data.readBigUInt64LE(base + PARAMS_TRADING_FEE_OFF),
-    maxAccounts: data.readBigUInt64LE(base + PARAMS_MAX_ACCOUNTS_OFF),
-    newAccountFee: readU128LE(data, base + PARAMS_NEW_ACCOUNT_FEE_OFF),
-    riskReductionThreshold: readU128LE(data, base + PARAMS_RISK_THRESHOLD_OFF),
-    maintenanceFeePerSlot: readU128LE(data, base + PARAMS_MAINTENANCE_FEE_OFF),
-    maxCrankStalenessSlots: data.readBigUInt64LE(base + PARAMS_MAX_CRANK_STALENESS_OFF),
-    liquidationFeeBps: data.readBigUInt64LE(base + PARAMS_LIQUIDATION_FEE_BPS_OFF),
-    liquidationFeeCap: readU128LE(data, base + PARAMS_LIQUIDATION_FEE_CAP_OFF),
-    liquidationBufferBps: data.readBigUInt64LE(base + PARAMS_LIQUIDATION_BUFFER_OFF),
-    minLiquidationAbs: readU128LE(data, base + PARAMS_MIN_LIQUIDATION_OFF),
+    ...header,
+    resolved: (header.flags & FLAG_RESOLVED) !== 0,
   };
 }
 
+/**
+ * Parse market config (starts right after the header).
+ */
+export function parseConfig(data: Buffer, layout: SlabLayout = detectSlabLayout(data)): MarketConfig {
+  const minLen = layout.configOff + layout.config.size;
+  if (data.length < minLen) {
+    throw new Error(`Slab data too short for config: ${data.length} < ${minLen}`);
+  }
+  return layout.config.read(data, layout.configOff);
+}
+
+/**
+ * Read nonce from slab header reserved field.
+ */
+export function readNonce(data: Buffer): bigint {
+  const off = SLAB_HEADER_SCHEMA.offsets.nonce;
+  if (data.length < off + 8) {
+    throw new Error("Slab data too short for nonce");
+  }
+  return data.readBigUInt64LE(off);
+}
+
+/**
+ * Read last threshold update slot from slab header reserved field.
+ */
+export function readLastThrUpdateSlot(data: Buffer): bigint {
+  const off = SLAB_HEADER_SCHEMA.offsets.lastThrUpdateSlot;
+  if (data.length < off + 8) {
+    throw new Error("Slab data too short for lastThrUpdateSlot");
+  }
+  return data.readBigUInt64LE(off);
+}
+
+/**
+ * Parse RiskParams from engine data.
+ * Note: invert/unitScale are in MarketConfig, not RiskParams.
+ */
+export function parseParams(data: Buffer, layout: SlabLayout = detectSlabLayout(data)): RiskParams {
+  const base = slabRegions(layout).params;
+  if (data.length < base + layout.params.size) {
+    throw new Error("Slab data too short for RiskParams");
+  }
+  return layout.params.read(data, base);
+}
+
 /**
  * Parse RiskEngine state (excluding accounts array).
  */
-export function parseEngine(data: Buffer): EngineState {
-  const base = ENGINE_OFF;
-  if (data.length < base + ENGINE_ACCOUNTS_OFF) {
+export function parseEngine(data: Buffer, layout: SlabLayout = detectSlabLayout(data)): EngineState {
+  if (data.length < layout.engineOff + layout.engine.size) {
     throw new Error("Slab data too short for RiskEngine");
   }
-
-  return {
-    vault: readU128LE(data, base + ENGINE_VAULT_OFF),
-    insuranceFund: {
-      balance: readU128LE(data, base + ENGINE_INSURANCE_OFF),
-      feeRevenue: readU128LE(data, base + ENGINE_INSURANCE_OFF + 16),
-    },
-    currentSlot: data.readBigUInt64LE(base + ENGINE_CURRENT_SLOT_OFF),
-    fundingIndexQpbE6: readI128LE(data, base + ENGINE_FUNDING_INDEX_OFF),
-    lastFundingSlot: data.readBigUInt64LE(base + ENGINE_LAST_FUNDING_SLOT_OFF),
-    fundingRateBpsPerSlotLast: data.readBigInt64LE(base + ENGINE_FUNDING_RATE_BPS_OFF),
-    lastCrankSlot: data.readBigUInt64LE(base + ENGINE_LAST_CRANK_SLOT_OFF),
-    maxCrankStalenessSlots: data.readBigUInt64LE(base + ENGINE_MAX_CRANK_STALENESS_OFF),
-    totalOpenInterest: readU128LE(data, base + ENGINE_TOTAL_OI_OFF),
-    cTot: readU128LE(data, base + ENGINE_C_TOT_OFF),
-    pnlPosTot: readU128LE(data, base + ENGINE_PNL_POS_TOT_OFF),
-    liqCursor: data.readUInt16LE(base + ENGINE_LIQ_CURSOR_OFF),
-    gcCursor: data.readUInt16LE(base + ENGINE_GC_CURSOR_OFF),
-    lastSweepStartSlot: data.readBigUInt64LE(base + ENGINE_LAST_SWEEP_START_OFF),
-    lastSweepCompleteSlot: data.readBigUInt64LE(base + ENGINE_LAST_SWEEP_COMPLETE_OFF),
-    crankCursor: data.readUInt16LE(base + ENGINE_CRANK_CURSOR_OFF),
-    sweepStartIdx: data.readUInt16LE(base + ENGINE_SWEEP_START_IDX_OFF),
-    lifetimeLiquidations: data.readBigUInt64LE(base + ENGINE_LIFETIME_LIQUIDATIONS_OFF),
-    lifetimeForceCloses: data.readBigUInt64LE(base + ENGINE_LIFETIME_FORCE_CLOSES_OFF),
-    // LP Aggregates for funding rate calculation
-    netLpPos: readI128LE(data, base + ENGINE_NET_LP_POS_OFF),
-    lpSumAbs: readU128LE(data, base + ENGINE_LP_SUM_ABS_OFF),
-    lpMaxAbs: readU128LE(data, base + ENGINE_LP_MAX_ABS_OFF),
-    lpMaxAbsSweep: readU128LE(data, base + ENGINE_LP_MAX_ABS_SWEEP_OFF),
-    numUsedAccounts: data.readUInt16LE(base + ENGINE_NUM_USED_OFF),
-    nextAccountId: data.readBigUInt64LE(base + ENGINE_NEXT_ACCOUNT_ID_OFF),
-  };
+  return layout.engine.read(data, layout.engineOff);
 }
 
 /**
  * Read bitmap to get list of used account indices.
  */
-export function parseUsedIndices(data: Buffer): number[] {
-  const base = ENGINE_OFF + ENGINE_BITMAP_OFF;
-  if (data.length < base + BITMAP_WORDS * 8) {
+export function parseUsedIndices(data: Buffer, layout: SlabLayout = detectSlabLayout(data)): number[] {
+  const base = slabRegions(layout).bitmap;
+  if (data.length < base + layout.bitmapWords * 8) {
     throw new Error("Slab data too short for bitmap");
   }
+  return readBitmap(data, base, layout.bitmapWords);
+}
 
+function readBitmap(data: Buffer, base: number, words: number): number[] {
   const used: number[] = [];
-  for (let word = 0; word < BITMAP_WORDS; word++) {
+  for (let word = 0; word < words; word++) {
     const bits = data.readBigUInt64LE(base + word * 8);
     if (bits === 0n) continue;
     for (let bit = 0; bit < 64; bit++) {
@@ -559,10 +513,11 @@ export function parseUsedIndices(data: Buffer): number[] {
 
 /**
  * Check if a specific account index is used.
+ * Pass `layout` when checking many indices of the same data.
  */
-export function isAccountUsed(data: Buffer, idx: number): boolean {
-  if (idx < 0 || idx >= MAX_ACCOUNTS) return false;
-  const base = ENGINE_OFF + ENGINE_BITMAP_OFF;
+export function isAccountUsed(data: Buffer, idx: number, layout: SlabLayout = detectSlabLayout(data)): boolean {
+  if (idx < 0 || idx >= layout.maxAccounts) return false;
+  const base = slabRegions(layout).bitmap;
   const word = Math.floor(idx / 64);
   const bit = idx % 64;
   const bits = data.readBigUInt64LE(base + word * 8);
@@ -571,47 +526,38 @@ export function isAccountUsed(data: Buffer, idx: number): boolean {
 
 /**
  * Calculate the maximum valid account index for a given slab size.
+ * Defaults to the current layout when the slab version is not known.
  */
-export function maxAccountIndex(dataLen: number): number {
-  const accountsEnd = dataLen - ENGINE_OFF - ENGINE_ACCOUNTS_OFF;
+export function maxAccountIndex(dataLen: number, layout: SlabLayout = CURRENT_SLAB_LAYOUT): number {
+  const accountsEnd = dataLen - slabRegions(layout).accounts;
   if (accountsEnd <= 0) return 0;
-  return Math.floor(accountsEnd / ACCOUNT_SIZE);
+  return Math.min(Math.floor(accountsEnd / layout.account.size), layout.maxAccounts);
 }
 
 /**
  * Parse a single account by index.
+ * Pass `layout` when parsing many accounts of the same data.
  */
-export function parseAccount(data: Buffer, idx: number): Account {
-  const maxIdx = maxAccountIndex(data.length);
+export function parseAccount(data: Buffer, idx: number, layout: SlabLayout = detectSlabLayout(data)): Account {
+  const maxIdx = maxAccountIndex(data.length, layout);
   if (idx < 0 || idx >= maxIdx) {
     throw new Error(`Account index out of range: ${idx} (max: ${maxIdx - 1})`);
   }
 
-  const base = ENGINE_OFF + ENGINE_ACCOUNTS_OFF + idx * ACCOUNT_SIZE;
-  if (data.length < base + ACCOUNT_SIZE) {
+  const base = slabRegions(layout).accounts + idx * layout.account.size;
+  if (data.length < base + layout.account.size) {
     throw new Error("Slab data too short for account");
   }
 
-  // Read the kind field directly from offset 24 (u8 with 7 bytes padding)
-  const kindByte = data.readUInt8(base + ACCT_KIND_OFF);
-  const kind = kindByte === 1 ? AccountKind.LP : AccountKind.User;
+  return readAccount(layout, data, base);
+}
 
+function readAccount(layout: SlabLayout, data: Buffer, base: number): Account {
+  const account = layout.account.read(data, base);
+  // kind is a bare u8: anything other than LP is treated as a user account
   return {
-    kind,
-    accountId: data.readBigUInt64LE(base + ACCT_ACCOUNT_ID_OFF),
-    capital: readU128LE(data, base + ACCT_CAPITAL_OFF),
-    pnl: readI128LE(data, base + ACCT_PNL_OFF),
-    reservedPnl: data.readBigUInt64LE(base + ACCT_RESERVED_PNL_OFF),  // u64
-    warmupStartedAtSlot: data.readBigUInt64LE(base + ACCT_WARMUP_STARTED_OFF),
-    warmupSlopePerStep: readU128LE(data, base + ACCT_WARMUP_SLOPE_OFF),
-    positionSize: readI128LE(data, base + ACCT_POSITION_SIZE_OFF),
-    entryPrice: data.readBigUInt64LE(base + ACCT_ENTRY_PRICE_OFF),
-    fundingIndex: readI128LE(data, base + ACCT_FUNDING_INDEX_OFF),
-    matcherProgram: new PublicKey(data.subarray(base + ACCT_MATCHER_PROGRAM_OFF, base + ACCT_MATCHER_PROGRAM_OFF + 32)),
-    matcherContext: new PublicKey(data.subarray(base + ACCT_MATCHER_CONTEXT_OFF, base + ACCT_MATCHER_CONTEXT_OFF + 32)),
-    owner: new PublicKey(data.subarray(base + ACCT_OWNER_OFF, base + ACCT_OWNER_OFF + 32)),
-    feeCredits: readI128LE(data, base + ACCT_FEE_CREDITS_OFF),
-    lastFeeSlot: data.readBigUInt64LE(base + ACCT_LAST_FEE_SLOT_OFF),
+    ...account,
+    kind: account.kind === AccountKind.LP ? AccountKind.LP : AccountKind.User,
   };
 }
 
@@ -620,11 +566,91 @@ export function parseAccount(data: Buffer, idx: number): Account {
  * Filters out indices that would be beyond the slab's account storage capacity.
  */
 export function parseAllAccounts(data: Buffer): { idx: number; account: Account }[] {
-  const indices = parseUsedIndices(data);
-  const maxIdx = maxAccountIndex(data.length);
+  const layout = detectSlabLayout(data);
+  const indices = parseUsedIndices(data, layout);
+  const maxIdx = maxAccountIndex(data.length, layout);
   const validIndices = indices.filter(idx => idx < maxIdx);
   return validIndices.map(idx => ({
     idx,
-    account: parseAccount(data, idx),
+    account: parseAccount(data, idx, layout),
   }));
 }
+
+// =============================================================================
+// Sliced Reads (dataSlice)
+//
+// The slab is ~1MB but almost all of it is the accounts array. These read
+// only the byte ranges a caller needs; every parse function above works on
+// the returned prefix exactly as on the full account data.
+// =============================================================================
+
+/**
+ * Fetch a byte range of the slab account.
+ */
+export async function fetchSlabRange(
+  connection: Connection,
+  slabPubkey: PublicKey,
+  offset: number,
+  length: number
+): Promise<Buffer> {
+  const info = await connection.getAccountInfo(slabPubkey, { dataSlice: { offset, length } });
+  if (!info) {
+    throw new Error(`Slab account not found: ${slabPubkey.toBase58()}`);
+  }
+  return Buffer.from(info.data);
+}
+
+/**
+ * Fetch header, config and engine state (the bitmap lives inside the engine),
+ * stopping before next_free and the accounts array.
+ * Sized from the current layout, re-read once if the slab reports another version.
+ */
+export async function fetchSlabHead(
+  connection: Connection,
+  slabPubkey: PublicKey
+): Promise<Buffer> {
+  const headLen = (layout: SlabLayout) => slabRegions(layout).nextFree;
+  const head = await fetchSlabRange(connection, slabPubkey, 0, headLen(CURRENT_SLAB_LAYOUT));
+  const layout = detectSlabLayout(head);
+  if (headLen(layout) <= head.length) return head;
+  return fetchSlabRange(connection, slabPubkey, 0, headLen(layout));
+}
+
+/**
+ * Fetch a single account by index.
+ */
+export async function fetchAccount(
+  connection: Connection,
+  slabPubkey: PublicKey,
+  idx: number,
+  layout: SlabLayout = CURRENT_SLAB_LAYOUT
+): Promise<Account> {
+  if (idx < 0 || idx >= layout.maxAccounts) {
+    throw new Error(`Account index out of range: ${idx} (max: ${layout.maxAccounts - 1})`);
+  }
+  const size = layout.account.size;
+  const data = await fetchSlabRange(connection, slabPubkey, slabRegions(layout).accounts + idx * size, size);
+  if (data.length < size) {
+    throw new Error("Slab data too short for account");
+  }
+  return readAccount(layout, data, 0);
+}
+
+/**
+ * Fetch the slab up to the end of the highest used account, for scans.
+ * Reads the head first to find the used indices; skips the second read
+ * when no account is in use.
+ */
+export async function fetchSlabUsed(
+  connection: Connection,
+  slabPubkey: PublicKey
+): Promise<Buffer> {
+  const head = await fetchSlabHead(connection, slabPubkey);
+  const layout = detectSlabLayout(head);
+  const used = parseUsedIndices(head, layout);
+  if (used.length === 0) return head;
+
+  const lastIdx = Math.min(Math.max(...used), layout.maxAccounts - 1);
+  const end = slabRegions(layout).accounts + (lastIdx + 1) * layout.account.size;
+  return fetchSlabRange(connection, slabPubkey, 0, end);
+}
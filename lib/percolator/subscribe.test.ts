@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { PublicKey } from '@solana/web3.js';
+import { SlabBuilder } from './solana/builder';
+import { AccountKind } from './solana/slab';
+import { subscribeSlab, createMemorySlabSource, type SlabUpdate } from './subscribe';
+
+const slab = new PublicKey(Buffer.alloc(32, 1));
+const owner = new PublicKey(Buffer.alloc(32, 2));
+
+function market(): SlabBuilder {
+  return new SlabBuilder()
+    .config({ authorityPriceE6: 1_000_000n })
+    .account(0, { kind: AccountKind.LP, capital: 10_000_000_000n })
+    .account(1, { owner, capital: 1_000_000_000n });
+}
+
+function collect() {
+  const source = createMemorySlabSource();
+  const updates: SlabUpdate[] = [];
+  const errors: Error[] = [];
+  const unsubscribe = subscribeSlab(source, slab, u => updates.push(u), { onError: e => errors.push(e) });
+  return { source, updates, errors, unsubscribe };
+}
+
+describe('subscribeSlab', () => {
+  it('reports every account as added on the first push without a baseline', () => {
+    const { source, updates } = collect();
+    source.emit(slab, market().build(), 10);
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].previous).toBeNull();
+    expect(updates[0].deltas.map(d => d.type)).toEqual(['accountAdded', 'accountAdded']);
+  });
+
+  it('carries config, params and engine in the snapshot', () => {
+    const { source, updates } = collect();
+    source.emit(slab, market().params({ warmupPeriodSlots: 42n }).build(), 10);
+
+    const { snapshot } = updates[0];
+    expect(snapshot.slot).toBe(10);
+    expect(snapshot.config.authorityPriceE6).toBe(1_000_000n);
+    expect(snapshot.params.warmupPeriodSlots).toBe(42n);
+    expect(snapshot.engine.cTot).toBe(11_000_000_000n);
+  });
+
+  it('diffs against the initial baseline', () => {
+    const source = createMemorySlabSource();
+    const updates: SlabUpdate[] = [];
+    subscribeSlab(source, slab, u => updates.push(u), { initial: market().build() });
+
+    source.emit(slab, market()
+      .account(1, { owner, capital: 1_000_000_000n, positionSize: 5_000_000n, entryPrice: 1_000_000n })
+      .engine({ fundingIndexQpbE6: 7n })
+      .build(), 11);
+
+    const { deltas } = updates[0];
+    expect(deltas).toContainEqual({ type: 'engine', field: 'fundingIndexQpbE6', before: 0n, after: 7n });
+    expect(deltas).toContainEqual({ type: 'engine', field: 'totalOpenInterest', before: 0n, after: 5_000_000n });
+    const changed = deltas.find(d => d.type === 'accountChanged');
+    expect(changed).toMatchObject({
+      idx: 1,
+      change: 'opened',
+      changes: { positionSize: { before: 0n, after: 5_000_000n } },
+    });
+  });
+
+  it('drops pushes older than the last seen slot', () => {
+    const { source, updates } = collect();
+    source.emit(slab, market().build(), 20);
+    source.emit(slab, market().engine({ vault: 1n }).build(), 19);
+
+    expect(updates).toHaveLength(1);
+  });
+
+  it('reports data that does not parse to onError', () => {
+    const { source, updates, errors } = collect();
+    source.emit(slab, Buffer.alloc(16), 10);
+
+    expect(updates).toHaveLength(0);
+    expect(errors[0].message).toMatch(/too short for header/);
+  });
+
+  it('ignores other slabs and stops after unsubscribe', async () => {
+    const { source, updates, unsubscribe } = collect();
+    source.emit(new PublicKey(Buffer.alloc(32, 9)), market().build(), 10);
+    expect(updates).toHaveLength(0);
+
+    expect(source.listenerCount(slab)).toBe(1);
+    await unsubscribe();
+    expect(source.listenerCount()).toBe(0);
+    source.emit(slab, market().build(), 11);
+    expect(updates).toHaveLength(0);
+  });
+});
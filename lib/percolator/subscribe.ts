@@ -0,0 +1,259 @@
+/**
+ * Live slab subscription — pushes typed deltas on every slab write.
+ * Built on onAccountChange; each update is parsed and diffed against the
+ * previous one so consumers only see what changed.
+ */
+import { PublicKey } from '@solana/web3.js';
+import type {
+  AccountChangeCallback,
+  AccountInfo,
+  AccountSubscriptionConfig,
+  Commitment,
+  Context,
+} from '@solana/web3.js';
+
+import { detectSlabLayout, parseConfig, parseParams, parseEngine, parseAllAccounts } from './solana/slab';
+import type { Account, EngineState, MarketConfig, RiskParams } from './solana/slab';
+import { classifyAccountChange, findLiquidatedSlots, type AccountChangeKind } from './diff';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The subset of Connection a subscription needs. A real Connection satisfies
+ * it; createMemorySlabSource() provides an in-memory stand-in.
+ */
+export interface SlabSubscriptionSource {
+  onAccountChange(
+    publicKey: PublicKey,
+    callback: AccountChangeCallback,
+    config?: AccountSubscriptionConfig,
+  ): number;
+  removeAccountChangeListener(clientSubscriptionId: number): Promise<void>;
+}
+
+/** Engine fields reported as deltas */
+export const WATCHED_ENGINE_FIELDS = [
+  'fundingIndexQpbE6',
+  'fundingRateBpsPerSlotLast',
+  'totalOpenInterest',
+  'lastCrankSlot',
+  'vault',
+  'cTot',
+  'pnlPosTot',
+  'netLpPos',
+] as const satisfies readonly (keyof EngineState)[];
+
+/** Account fields reported as deltas */
+export const WATCHED_ACCOUNT_FIELDS = [
+  'positionSize',
+  'capital',
+  'pnl',
+  'entryPrice',
+] as const satisfies readonly (keyof Account)[];
+
+export type EngineDeltaField = typeof WATCHED_ENGINE_FIELDS[number];
+export type AccountDeltaField = typeof WATCHED_ACCOUNT_FIELDS[number];
+
+export interface FieldChange {
+  before: bigint;
+  after: bigint;
+}
+
+export type SlabDelta =
+  | { type: 'engine'; field: EngineDeltaField; before: bigint; after: bigint }
+  | { type: 'accountAdded'; idx: number; account: Account }
+  | { type: 'accountRemoved'; idx: number; account: Account }   // Last known state
+  | {
+      type: 'accountChanged';
+      idx: number;
+      account: Account;
+      change: AccountChangeKind;   // opened, increased, reduced, flipped, closed, liquidated, updated
+      changes: Partial<Record<AccountDeltaField, FieldChange>>;
+    };
+
+export type SlabDeltaType = SlabDelta['type'];
+
+/**
+ * Parsed slab state at one slot.
+ */
+export interface SlabSnapshot {
+  slot: number;
+  config: MarketConfig;            // Carries the mark price; not diffed
+  params: RiskParams;
+  engine: EngineState;
+  accounts: Map<number, Account>;
+}
+
+export interface SlabUpdate {
+  snapshot: SlabSnapshot;
+  previous: SlabSnapshot | null;   // null on the first update without a baseline
+  deltas: SlabDelta[];
+}
+
+export type SlabUpdateHandler = (update: SlabUpdate) => void;
+
+export interface SubscribeSlabOptions {
+  commitment?: Commitment;
+  initial?: Buffer;                // Baseline so the first push is diffed, not reported as all-new
+  onError?: (error: Error) => void;
+}
+
+// ============================================================================
+// Snapshots and diffing
+// ============================================================================
+
+/**
+ * Parse slab data into a snapshot.
+ */
+export function parseSlabSnapshot(data: Buffer, slot: number = 0): SlabSnapshot {
+  const layout = detectSlabLayout(data);
+  const accounts = new Map<number, Account>();
+  for (const { idx, account } of parseAllAccounts(data)) {
+    accounts.set(idx, account);
+  }
+  return {
+    slot,
+    config: parseConfig(data, layout),
+    params: parseParams(data, layout),
+    engine: parseEngine(data, layout),
+    accounts,
+  };
+}
+
+/**
+ * Compute deltas between two snapshots. With no previous snapshot every
+ * account is reported as added and no engine deltas are emitted.
+ */
+export function diffSnapshots(previous: SlabSnapshot | null, next: SlabSnapshot): SlabDelta[] {
+  const deltas: SlabDelta[] = [];
+  const liquidated = previous
+    ? findLiquidatedSlots(previous.accounts, next.accounts, {
+        count: next.engine.lifetimeLiquidations - previous.engine.lifetimeLiquidations,
+      })
+    : new Set<number>();
+
+  if (previous) {
+    for (const field of WATCHED_ENGINE_FIELDS) {
+      const before = previous.engine[field];
+      const after = next.engine[field];
+      if (before !== after) deltas.push({ type: 'engine', field, before, after });
+    }
+  }
+
+  for (const [idx, account] of next.accounts) {
+    const prior = previous?.accounts.get(idx);
+    // A reused slot with a new accountId is a different account
+    if (!prior || prior.accountId !== account.accountId) {
+      if (prior) deltas.push({ type: 'accountRemoved', idx, account: prior });
+      deltas.push({ type: 'accountAdded', idx, account });
+      continue;
+    }
+
+    const changes: Partial<Record<AccountDeltaField, FieldChange>> = {};
+    let changed = false;
+    for (const field of WATCHED_ACCOUNT_FIELDS) {
+      if (prior[field] !== account[field]) {
+        changes[field] = { before: prior[field], after: account[field] };
+        changed = true;
+      }
+    }
+    if (changed) {
+      const change = classifyAccountChange(prior, account, liquidated.has(idx)) ?? 'updated';
+      deltas.push({ type: 'accountChanged', idx, account, change, changes });
+    }
+  }
+
+  if (previous) {
+    for (const [idx, account] of previous.accounts) {
+      if (!next.accounts.has(idx)) deltas.push({ type: 'accountRemoved', idx, account });
+    }
+  }
+
+  return deltas;
+}
+
+// ============================================================================
+// Subscription
+// ============================================================================
+
+/**
+ * Subscribe to slab writes. The handler receives the parsed snapshot and
+ * the deltas against the previous update. Updates older than the last seen
+ * slot are dropped. Returns an unsubscribe function.
+ */
+export function subscribeSlab(
+  source: SlabSubscriptionSource,
+  slab: PublicKey,
+  handler: SlabUpdateHandler,
+  options: SubscribeSlabOptions = {},
+): () => Promise<void> {
+  const { commitment = 'confirmed', initial, onError } = options;
+  let previous: SlabSnapshot | null = initial ? parseSlabSnapshot(initial) : null;
+
+  const id = source.onAccountChange(slab, (info: AccountInfo<Buffer>, context: Context) => {
+    if (previous && context.slot < previous.slot) return;
+
+    let snapshot: SlabSnapshot;
+    try {
+      snapshot = parseSlabSnapshot(Buffer.from(info.data), context.slot);
+    } catch (e) {
+      onError?.(e instanceof Error ? e : new Error(String(e)));
+      return;
+    }
+
+    const deltas = diffSnapshots(previous, snapshot);
+    const update: SlabUpdate = { snapshot, previous, deltas };
+    previous = snapshot;
+    handler(update);
+  }, { commitment });
+
+  return () => source.removeAccountChangeListener(id);
+}
+
+// ============================================================================
+// In-memory source
+// ============================================================================
+
+export interface MemorySlabSource extends SlabSubscriptionSource {
+  /** Deliver slab data to every listener on the given slab */
+  emit(slab: PublicKey, data: Buffer, slot: number): void;
+  listenerCount(slab?: PublicKey): number;
+}
+
+/**
+ * Stand-in for a Connection that delivers slab data pushed with emit().
+ * Lets subscriptions run against SlabBuilder fixtures without a websocket.
+ */
+export function createMemorySlabSource(): MemorySlabSource {
+  const listeners = new Map<number, { slab: PublicKey; callback: AccountChangeCallback }>();
+  let nextId = 0;
+
+  return {
+    onAccountChange(publicKey, callback) {
+      const id = nextId++;
+      listeners.set(id, { slab: publicKey, callback });
+      return id;
+    },
+    async removeAccountChangeListener(id) {
+      listeners.delete(id);
+    },
+    emit(slab, data, slot) {
+      const info: AccountInfo<Buffer> = {
+        data,
+        executable: false,
+        lamports: 0,
+        owner: PublicKey.default,
+        rentEpoch: 0,
+      };
+      for (const listener of [...listeners.values()]) {
+        if (listener.slab.equals(slab)) listener.callback(info, { slot });
+      }
+    },
+    listenerCount(slab) {
+      if (!slab) return listeners.size;
+      return [...listeners.values()].filter(l => l.slab.equals(slab)).length;
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { PublicKey } from '@solana/web3.js';
+import { SlabBuilder } from './solana/builder';
+import { parseAccount, parseParams } from './solana/slab';
+import type { Account, RiskParams } from './solana/slab';
+import { computeWarmup } from './warmup';
+import { SLOT_DURATION_MS } from './funding';
+
+const owner = new PublicKey(Buffer.alloc(32, 4));
+const NOW = 1_700_000_000_000;
+const FULL = { numerator: 1n, denominator: 1n };
+const QUARTER = { numerator: 1n, denominator: 4n };
+
+function slabWith(account: Partial<Account>, params: Partial<RiskParams> = {}) {
+  const data = new SlabBuilder()
+    .params({ warmupPeriodSlots: 100n, ...params })
+    .account(1, { owner, capital: 1_000_000_000n, ...account })
+    .build();
+  return { account: parseAccount(data, 1), params: parseParams(data) };
+}
+
+describe('computeWarmup', () => {
+  it('starts a zero slope at the current slot over the full period', () => {
+    const { account, params } = slabWith({ pnl: 1_000_000n, warmupSlopePerStep: 0n, warmupStartedAtSlot: 10n });
+    const schedule = computeWarmup(account, params, 1_000_000n, FULL, 5_000n, NOW);
+
+    expect(schedule.warming).toBe(1_000_000n);
+    expect(schedule.unlocked).toBe(0n);
+    expect(schedule.locked).toBe(1_000_000n);
+    expect(schedule.progressBps).toBe(0);
+    expect(schedule.startSlot).toBe(5_000n);
+    expect(schedule.endSlot).toBe(5_100n);
+    expect(schedule.endsAt).toEqual(new Date(NOW + 100 * SLOT_DURATION_MS));
+    expect(schedule.milestones.map(m => [m.slot, m.unlocked])).toEqual([
+      [5_025n, 250_000n],
+      [5_050n, 500_000n],
+      [5_075n, 750_000n],
+      [5_100n, 1_000_000n],
+    ]);
+    expect(schedule.withdrawableNow).toBe(1_000_000_000n);
+  });
+
+  it('unlocks everything in one slot when the period is zero', () => {
+    const { account, params } = slabWith({ pnl: 1_000_000n }, { warmupPeriodSlots: 0n });
+    const schedule = computeWarmup(account, params, 1_000_000n, FULL, 5_000n, NOW);
+
+    expect(schedule.endSlot).toBe(5_001n);
+    expect(schedule.milestones).toHaveLength(4);
+    expect(schedule.milestones.every(m => m.slot === 5_001n)).toBe(true);
+  });
+
+  it('follows an existing slope and pays unlocked PnL at the haircut', () => {
+    const { account, params } = slabWith({
+      pnl: 1_000_000n,
+      warmupStartedAtSlot: 1_000n,
+      warmupSlopePerStep: 10_000n,
+    });
+    const schedule = computeWarmup(account, params, 1_000_000n, QUARTER, 1_050n, NOW);
+
+    expect(schedule.unlocked).toBe(500_000n);
+    expect(schedule.progressBps).toBe(5_000);
+    expect(schedule.endSlot).toBe(1_100n);
+    expect(schedule.milestones.map(m => m.slot)).toEqual([1_075n, 1_100n]);
+    expect(schedule.withdrawableNow).toBe(1_000_000_000n + 125_000n);
+  });
+
+  it('excludes reserved PnL and reports complete when nothing is warming', () => {
+    const reserved = slabWith({ pnl: 1_000_000n, reservedPnl: 1_000_000n });
+    const done = computeWarmup(reserved.account, reserved.params, 1_000_000n, FULL, 5_000n, NOW);
+    expect(done.warming).toBe(0n);
+    expect(done.progressBps).toBe(10_000);
+    expect(done.endSlot).toBe(5_000n);
+    expect(done.milestones).toEqual([]);
+
+    const losing = slabWith({ pnl: -1_000_000n });
+    expect(computeWarmup(losing.account, losing.params, 1_000_000n, FULL, 5_000n, NOW).warming).toBe(0n);
+  });
+
+  it('caps withdrawals at free collateral over initial margin', () => {
+    // 1 SOL equity, 5 SOL notional: 0.5 SOL initial margin leaves 0.5 SOL free
+    const { account, params } = slabWith({ positionSize: 5_000_000_000n, entryPrice: 1_000_000n });
+    expect(computeWarmup(account, params, 1_000_000n, FULL, 5_000n, NOW).withdrawableNow).toBe(500_000_000n);
+  });
+});
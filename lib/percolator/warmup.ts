@@ -0,0 +1,107 @@
+/**
+ * PnL warmup — positive PnL unlocks linearly, warmupSlopePerStep per slot
+ * from warmupStartedAtSlot, and only unlocked PnL can be converted to
+ * capital and withdrawn. Touching it early fails with EnginePnlNotWarmedUp.
+ * Slots convert to wall-clock time at the target slot duration, so times
+ * are estimates.
+ */
+import type { Account, RiskParams } from './solana/slab';
+import { computeMargin, realizablePnl, BPS_DENOMINATOR } from './risk';
+import type { HaircutRatio } from './risk';
+import { SLOT_DURATION_MS } from './funding';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WarmupMilestone {
+  slot: bigint;
+  unlocked: bigint;              // Cumulative warmed PnL at this slot
+  at: Date;                      // Estimated
+}
+
+export interface WarmupSchedule {
+  warming: bigint;               // Positive PnL subject to warmup (pnl - reservedPnl)
+  unlocked: bigint;              // Warmed up as of the slot
+  locked: bigint;                // Still warming
+  progressBps: number;           // unlocked / warming; 10000 when nothing is warming
+  startSlot: bigint;
+  endSlot: bigint;               // Slot the last of it unlocks
+  endsAt: Date;
+  milestones: WarmupMilestone[]; // Quarters of `warming` still ahead, ending with endSlot
+  withdrawableNow: bigint;       // Capital plus unlocked PnL after the haircut, within initial margin
+}
+
+const MILESTONE_QUARTERS = [1n, 2n, 3n, 4n];
+
+// ============================================================================
+// Schedule
+// ============================================================================
+
+/**
+ * Estimated wall-clock time of a slot, from a slot observed at `now`.
+ */
+export function slotToDate(slot: bigint, currentSlot: bigint, now: number = Date.now()): Date {
+  return new Date(now + Number(slot - currentSlot) * SLOT_DURATION_MS);
+}
+
+/**
+ * Warmup state of an account at `slot`, with when the rest unlocks. An
+ * account with no slope yet (warmup not started since PnL last grew) is
+ * assumed to start now and take the full warmupPeriodSlots.
+ */
+export function computeWarmup(
+  account: Account,
+  params: RiskParams,
+  markPriceE6: bigint,
+  haircut: HaircutRatio,
+  slot: bigint,
+  now: number = Date.now(),
+): WarmupSchedule {
+  const positive = account.pnl > 0n ? account.pnl : 0n;
+  const warming = positive > account.reservedPnl ? positive - account.reservedPnl : 0n;
+
+  let startSlot = account.warmupStartedAtSlot;
+  let slope = account.warmupSlopePerStep;
+  if (warming > 0n && slope === 0n) {
+    startSlot = slot;
+    const period = params.warmupPeriodSlots > 0n ? params.warmupPeriodSlots : 1n;
+    slope = (warming + period - 1n) / period;
+  }
+
+  const unlockedAt = (s: bigint) => {
+    if (slope === 0n || s <= startSlot) return 0n;
+    const amount = slope * (s - startSlot);
+    return amount < warming ? amount : warming;
+  };
+  const slotFor = (amount: bigint) => slope === 0n ? startSlot : startSlot + (amount + slope - 1n) / slope;
+
+  const unlocked = unlockedAt(slot);
+  const endSlot = warming > 0n ? slotFor(warming) : slot;
+  const milestones: WarmupMilestone[] = [];
+  if (warming > 0n) {
+    for (const q of MILESTONE_QUARTERS) {
+      const amount = warming * q / 4n;
+      const at = slotFor(amount);
+      if (at > slot) milestones.push({ slot: at, unlocked: amount, at: slotToDate(at, slot, now) });
+    }
+  }
+
+  // Unlocked PnL joins capital at the haircut; what leaves must still
+  // leave the account above initial margin
+  const margin = computeMargin(account, params, markPriceE6);
+  const spendable = account.capital + realizablePnl(unlocked, haircut);
+  const withdrawableNow = spendable < margin.freeCollateral ? spendable : margin.freeCollateral;
+
+  return {
+    warming,
+    unlocked,
+    locked: warming - unlocked,
+    progressBps: warming > 0n ? Number(unlocked * BPS_DENOMINATOR / warming) : Number(BPS_DENOMINATOR),
+    startSlot,
+    endSlot,
+    endsAt: slotToDate(endSlot, slot, now),
+    milestones,
+    withdrawableNow,
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * Portfolio — a wallet's Percolator accounts across every listed market.
+ * Reads each registered slab (through the shared slab cache), finds the
+ * wallet's accounts and aggregates capital, PnL, notional and margin.
+ */
+import { PublicKey } from '@solana/web3.js';
+import { getPercolatorClient } from './solana';
+import { getTokens, type LaunchedToken } from './tokenRegistry';
+import { isMockToken } from './mockToken';
+import { parseConfig, parseParams } from './percolator/solana/slab';
+import { computeMargin, engineMarkPrice } from './percolator/risk';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PortfolioRow {
+  mint: string;
+  symbol: string;
+  name: string;
+  slab: string;
+  accountIdx: number;
+  kind: 'user' | 'lp';
+  capital: bigint;               // Lamports
+  pnl: bigint;                   // Unrealized: stored PnL plus mark-to-market since the last settle
+  positionSize: bigint;          // Positive = long, negative = short
+  entryPriceE6: bigint;
+  markPriceE6: bigint;
+  notional: bigint;              // |size| * mark, lamports
+  maintenanceMargin: bigint;     // Lamports required to avoid liquidation
+}
+
+export interface PortfolioTotals {
+  capital: bigint;
+  pnl: bigint;
+  equity: bigint;                // capital + pnl
+  notional: bigint;
+  maintenanceMargin: bigint;
+  marginUsageBps: number;        // maintenanceMargin / equity; 0 with no positions, 10000+ when underwater
+}
+
+export interface PortfolioMarketError {
+  mint: string;
+  slab: string;
+  error: string;
+}
+
+export interface Portfolio {
+  rows: PortfolioRow[];          // Per market and account, in registry order
+  totals: PortfolioTotals;
+  errors: PortfolioMarketError[];  // Markets that could not be read
+  marketsScanned: number;
+}
+
+/** Slabs read at once */
+const PORTFOLIO_CONCURRENCY = 4;
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+/**
+ * Build the owner's portfolio across every registered market with a slab.
+ * A market that fails to load is reported in `errors`, not thrown.
+ */
+export async function getPortfolio(owner: PublicKey): Promise<Portfolio> {
+  const markets = uniqueMarkets(await getTokens());
+  const rows: PortfolioRow[] = [];
+  const errors: PortfolioMarketError[] = [];
+
+  for (let i = 0; i < markets.length; i += PORTFOLIO_CONCURRENCY) {
+    const batch = markets.slice(i, i + PORTFOLIO_CONCURRENCY);
+    const results = await Promise.allSettled(batch.map(token => loadMarketRows(token, owner)));
+    results.forEach((result, j) => {
+      const token = batch[j];
+      if (result.status === 'fulfilled') {
+        rows.push(...result.value);
+      } else {
+        const reason = result.reason;
+        errors.push({
+          mint: token.mint,
+          slab: token.percolatorSlab!,
+          error: reason instanceof Error ? reason.message : String(reason),
+        });
+      }
+    });
+  }
+
+  return { rows, totals: sumRows(rows), errors, marketsScanned: markets.length };
+}
+
+async function loadMarketRows(token: LaunchedToken, owner: PublicKey): Promise<PortfolioRow[]> {
+  const client = getPercolatorClient(new PublicKey(token.percolatorSlab!));
+  const data = await client.refreshSlab();
+  const owned = await client.findAccountsByOwner(owner);
+  if (owned.length === 0) return [];
+
+  const mark = engineMarkPrice(parseConfig(data));
+  const params = parseParams(data);
+
+  return owned.map(({ idx, kind, account }) => {
+    const markPriceE6 = mark || account.entryPrice;
+    const margin = computeMargin(account, params, markPriceE6);
+    return {
+      mint: token.mint,
+      symbol: token.symbol,
+      name: token.name,
+      slab: token.percolatorSlab!,
+      accountIdx: idx,
+      kind,
+      capital: account.capital,
+      pnl: account.pnl + margin.markPnl,
+      positionSize: account.positionSize,
+      entryPriceE6: account.entryPrice,
+      markPriceE6,
+      notional: margin.notional,
+      maintenanceMargin: margin.maintenanceMargin,
+    };
+  });
+}
+
+function sumRows(rows: PortfolioRow[]): PortfolioTotals {
+  const totals = { capital: 0n, pnl: 0n, notional: 0n, maintenanceMargin: 0n };
+  for (const row of rows) {
+    totals.capital += row.capital;
+    totals.pnl += row.pnl;
+    totals.notional += row.notional;
+    totals.maintenanceMargin += row.maintenanceMargin;
+  }
+  const equity = totals.capital + totals.pnl;
+  let marginUsageBps = 0;
+  if (totals.maintenanceMargin > 0n) {
+    marginUsageBps = equity > 0n ? Number(totals.maintenanceMargin * 10_000n / equity) : 10_000;
+  }
+  return { ...totals, equity, marginUsageBps };
+}
+
+// Registered tokens with a real slab, one per slab
+function uniqueMarkets(tokens: LaunchedToken[]): LaunchedToken[] {
+  const seen = new Set<string>();
+  return tokens.filter(t => {
+    if (!t.percolatorSlab || isMockToken(t.mint) || seen.has(t.percolatorSlab)) return false;
+    seen.add(t.percolatorSlab);
+    return true;
+  });
+}
@@ -12,6 +12,9 @@
  *    e. PushOraclePrice with initial bonding curve price
  *    f. Create matcher context account
  *    g. InitLP with passive matcher
+ *    h. Address lookup table over the market's accounts (optional)
+ *    All steps are planned up front and approved in a single wallet prompt
+ *    when the wallet supports signAllTransactions.
  */
 
 import {
@@ -22,6 +25,7 @@ import {
   SystemProgram,
   Keypair,
   LAMPORTS_PER_SOL,
+  type BlockhashWithExpiryBlockHeight,
 } from '@solana/web3.js';
 import {
   getAssociatedTokenAddress,
@@ -32,6 +36,11 @@ import {
 } from '@solana/spl-token';
 import { PercolatorClient, MAINNET_CONFIG } from './percolator/client';
 import { deriveVaultAuthority } from './percolator/solana/pda';
+import { marketLookupAddresses, buildCreateLookupTableIx, buildExtendLookupTableIxs } from './percolator/solana/alt';
+import { SLAB_SIZE } from './percolator/solana/slab';
+import { classifyTxError } from './percolator/abi/errors';
+import { estimatePriorityFeeSol, DEFAULT_FEE_LEVEL, type FeeLevel } from './percolator/fees';
+import { sendWithRetry, type TxLifecycleHandler } from './percolator/sender';
 
 // ============================================================================
 // Constants
@@ -41,8 +50,14 @@ export const PUMP_FUN_PROGRAM_ID = new PublicKey('6EF8rrecthR5Dkzon8Nwu78hRvfCKu
 export const PUMP_FUN_IPFS_API = 'https://pump.fun/api';        // IPFS metadata upload
 export const PUMP_PORTAL_API = 'https://pumpportal.fun/api';     // Token creation & trading
 
-// Percolator slab size: ~1MB to fit up to 4096 accounts (meme-liquid standard)
-const SLAB_SIZE = 1_048_576; // 1 MB
+// Approximate CU budgets PumpPortal sets, used to turn a per-CU price into its SOL priorityFee
+const PUMP_CREATE_COMPUTE_UNITS = 250_000;
+const PUMP_TRADE_COMPUTE_UNITS = 100_000;
+
+// Least priorityFee sent to PumpPortal (the fixed fee used before it was
+// estimated). Recent-fee percentiles on quiet accounts price a whole
+// transaction at a few thousand lamports, too little to land during launches.
+const PUMP_MIN_PRIORITY_FEE_SOL = 0.0005;
 
 // Default risk parameters for new memecoin markets
 const DEFAULT_MARKET_PARAMS = {
@@ -85,18 +100,22 @@ export interface LaunchResult {
 
 export interface FullLaunchResult extends LaunchResult {
   percolatorSlabAddress?: string;
+  percolatorLookupTable?: string;
+  percolatorLookupTableError?: string;
   percolatorMarketCreated: boolean;
 }
 
 export interface WalletAdapter {
   publicKey: PublicKey;
   signTransaction: <T extends Transaction | VersionedTransaction>(tx: T) => Promise<T>;
+  signAllTransactions?: <T extends Transaction | VersionedTransaction>(txs: T[]) => Promise<T[]>;   // One prompt for a batch
 }
 
 export interface TradeResult {
   success: boolean;
   signature?: string;
   error?: string;
+  hint?: string;
 }
 
 // ============================================================================
@@ -148,6 +167,8 @@ export async function createPumpFunToken(
   metadata: TokenMetadata,
   connection: Connection,
   initialBuyAmountSol: number = 0,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL,
+  onEvent?: TxLifecycleHandler,
 ): Promise<LaunchResult & { mintKeypair?: Keypair }> {
   try {
     const mintKeypair = Keypair.generate();
@@ -157,6 +178,8 @@ export async function createPumpFunToken(
       return { success: false, error: uploadError || 'Failed to upload metadata' };
     }
 
+    const priorityFee = await pumpPortalPriorityFee(connection, [], PUMP_CREATE_COMPUTE_UNITS, feeLevel);
+
     const response = await fetch(`${PUMP_PORTAL_API}/trade-local`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -172,7 +195,7 @@ export async function createPumpFunToken(
         denominatedInSol: 'true',
         amount: initialBuyAmountSol,
         slippage: 10,
-        priorityFee: 0.0005,
+        priorityFee,
         pool: 'pump',
       }),
     });
@@ -184,21 +207,16 @@ export async function createPumpFunToken(
 
     const txData = await response.arrayBuffer();
     const tx = VersionedTransaction.deserialize(new Uint8Array(txData));
-    
-    tx.sign([mintKeypair]);
-    const signed = await wallet.signTransaction(tx);
-    const rawTx = signed.serialize();
-    
-    const signature = await connection.sendRawTransaction(rawTx, {
-      skipPreflight: false,
-      preflightCommitment: 'confirmed',
-    });
 
-    const latestBlockhash = await connection.getLatestBlockhash('confirmed');
-    await connection.confirmTransaction(
-      { signature, blockhash: latestBlockhash.blockhash, lastValidBlockHeight: latestBlockhash.lastValidBlockHeight },
-      'confirmed'
-    );
+    // Sign against our own blockhash so the sender knows the expiry window
+    const { signature, failure } = await sendWithRetry(connection, async blockhash => {
+      tx.message.recentBlockhash = blockhash;
+      tx.sign([mintKeypair]);
+      return wallet.signTransaction(tx);
+    }, { onEvent });
+    if (failure) {
+      return { success: false, error: failure.message };
+    }
 
     return {
       success: true,
@@ -217,191 +235,242 @@ export async function createPumpFunToken(
 // Uses meme-liquid mainnet programs — zero cost to platform
 // ============================================================================
 
-export async function createPercolatorMarket(
-  wallet: WalletAdapter,
-  connection: Connection,
-  initialPriceE6: bigint,
-): Promise<{
+export interface MarketCreationStep {
+  label: string;                 // Instruction name, for logs and errors
+  tx: Transaction;
+  signers: Keypair[];            // New accounts that co-sign besides the wallet
+  required: boolean;             // Later steps depend on it; stop if it fails
+}
+
+export interface MarketCreationPlan {
+  slab: PublicKey;
+  vault: PublicKey;
+  matcherContext: PublicKey;
+  lookupTable: PublicKey;        // Persist next to the slab; it cannot be found on-chain later
+  blockhash: BlockhashWithExpiryBlockHeight;   // Every step is partially signed against it
+  steps: MarketCreationStep[];   // In dependency order
+}
+
+export interface MarketCreationResult {
   success: boolean;
   slabAddress?: string;
+  lookupTable?: string;          // Set when every lookup table step landed
+  lookupTableError?: string;     // Why the table is missing; the market works without it
   error?: string;
-}> {
+}
+
+const MATCHER_CTX_SIZE = 128;
+
+// Lookup table steps are optional and only useful together
+const isLookupTableStep = (step: MarketCreationStep) => step.label.endsWith('LookupTable');
+
+/**
+ * Build every market creation transaction up front, with the slab and
+ * matcher context keypairs already partially signed, so the wallet can
+ * approve the whole batch in one signAllTransactions prompt.
+ *
+ * Steps after the slab exists can't be simulated yet, so their compute
+ * limits fall back to the default.
+ */
+export async function planPercolatorMarket(
+  wallet: WalletAdapter,
+  connection: Connection,
+  initialPriceE6: bigint,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL,
+): Promise<MarketCreationPlan> {
   const programId = MAINNET_CONFIG.programId;
   const matcherProgramId = MAINNET_CONFIG.matcherProgram;
   const collateralMint = MAINNET_CONFIG.collateralMint; // wSOL
 
-  try {
-    // ---------------------------------------------------------------
-    // Step 1: Create slab account (~1MB, costs ~7 SOL rent)
-    // ---------------------------------------------------------------
-    const slabKeypair = Keypair.generate();
-    const rentExemption = await connection.getMinimumBalanceForRentExemption(SLAB_SIZE);
-
-    console.log(`[Percolator] Slab rent: ${(rentExemption / LAMPORTS_PER_SOL).toFixed(2)} SOL`);
-
-    const createSlabIx = SystemProgram.createAccount({
+  const slabKeypair = Keypair.generate();
+  const matcherCtxKeypair = Keypair.generate();
+  const [rentExemption, matcherCtxRent] = await Promise.all([
+    connection.getMinimumBalanceForRentExemption(SLAB_SIZE),
+    connection.getMinimumBalanceForRentExemption(MATCHER_CTX_SIZE),
+  ]);
+  console.log(`[Percolator] Slab rent: ${(rentExemption / LAMPORTS_PER_SOL).toFixed(2)} SOL`);
+
+  // Slab account (~1MB, costs ~7 SOL rent)
+  const createSlabTx = new Transaction().add(
+    SystemProgram.createAccount({
       fromPubkey: wallet.publicKey,
       newAccountPubkey: slabKeypair.publicKey,
       lamports: rentExemption,
       space: SLAB_SIZE,
       programId,
-    });
+    })
+  );
 
-    const createSlabTx = new Transaction().add(createSlabIx);
-    const bh1 = await connection.getLatestBlockhash('confirmed');
-    createSlabTx.recentBlockhash = bh1.blockhash;
-    createSlabTx.feePayer = wallet.publicKey;
-    createSlabTx.partialSign(slabKeypair);
-    const signedCreateSlab = await wallet.signTransaction(createSlabTx);
-    const sig1 = await connection.sendRawTransaction(signedCreateSlab.serialize(), {
-      skipPreflight: false,
-      preflightCommitment: 'confirmed',
-    });
-    await connection.confirmTransaction(
-      { signature: sig1, blockhash: bh1.blockhash, lastValidBlockHeight: bh1.lastValidBlockHeight },
-      'confirmed'
-    );
-    console.log(`[Percolator] ✅ Slab created: ${slabKeypair.publicKey.toBase58()}`);
-
-    // ---------------------------------------------------------------
-    // Step 2: Create SPL Token vault for wSOL collateral
-    // ---------------------------------------------------------------
-    const [vaultPda, vaultBump] = deriveVaultAuthority(programId, slabKeypair.publicKey);
-    const vaultAta = await getAssociatedTokenAddress(collateralMint, vaultPda, true);
-
-    const createVaultTx = new Transaction().add(
-      createAssociatedTokenAccountInstruction(
-        wallet.publicKey,
-        vaultAta,
-        vaultPda,
-        collateralMint,
-      )
-    );
-    const bh2 = await connection.getLatestBlockhash('confirmed');
-    createVaultTx.recentBlockhash = bh2.blockhash;
-    createVaultTx.feePayer = wallet.publicKey;
-    const signedVault = await wallet.signTransaction(createVaultTx);
-    const sig2 = await connection.sendRawTransaction(signedVault.serialize());
-    await connection.confirmTransaction(
-      { signature: sig2, blockhash: bh2.blockhash, lastValidBlockHeight: bh2.lastValidBlockHeight },
-      'confirmed'
-    );
-    console.log(`[Percolator] ✅ Vault ATA created: ${vaultAta.toBase58()}`);
+  // SPL Token vault for wSOL collateral
+  const [vaultPda] = deriveVaultAuthority(programId, slabKeypair.publicKey);
+  const vaultAta = await getAssociatedTokenAddress(collateralMint, vaultPda, true);
+  const createVaultTx = new Transaction().add(
+    createAssociatedTokenAccountInstruction(
+      wallet.publicKey,
+      vaultAta,
+      vaultPda,
+      collateralMint,
+    )
+  );
 
-    // ---------------------------------------------------------------
-    // Step 3: InitMarket in Hyperp mode (all-zeros feed ID)
-    // ---------------------------------------------------------------
-    const client = new PercolatorClient({
-      programId,
-      slabPubkey: slabKeypair.publicKey,
-      connection,
-    });
+  // InitMarket in Hyperp mode (all-zeros feed ID)
+  const client = new PercolatorClient({
+    programId,
+    slabPubkey: slabKeypair.publicKey,
+    connection,
+    feeLevel,
+  });
+  const initMarketTx = await client.buildInitMarketTx(
+    wallet,
+    slabKeypair.publicKey,
+    collateralMint,
+    vaultAta,
+    vaultAta, // dummyAta
+    {
+      admin: wallet.publicKey,
+      collateralMint: collateralMint,
+      indexFeedId: '0'.repeat(64), // All zeros = Hyperp mode
+      maxStalenessSecs: 3600n,
+      confFilterBps: 0,
+      invert: 0,
+      unitScale: 0,
+      initialMarkPriceE6: initialPriceE6,
+      ...DEFAULT_MARKET_PARAMS,
+    },
+  );
 
-    const initMarketTx = await client.buildInitMarketTx(
-      wallet,
-      slabKeypair.publicKey,
-      collateralMint,
-      vaultAta,
-      vaultAta, // dummyAta
-      {
-        admin: wallet.publicKey,
-        collateralMint: collateralMint,
-        indexFeedId: '0'.repeat(64), // All zeros = Hyperp mode
-        maxStalenessSecs: 3600n,
-        confFilterBps: 0,
-        invert: 0,
-        unitScale: 0,
-        initialMarkPriceE6: initialPriceE6,
-        ...DEFAULT_MARKET_PARAMS,
-      },
-    );
-    const initResult = await client.sendTransaction(wallet, initMarketTx);
-    if (initResult.error) {
-      return { success: false, error: `InitMarket failed: ${initResult.error}` };
-    }
-    console.log(`[Percolator] ✅ Market initialized: ${initResult.signature}`);
-
-    // ---------------------------------------------------------------
-    // Step 4: SetOracleAuthority to creator wallet
-    // ---------------------------------------------------------------
-    const setOracleTx = await client.buildSetOracleAuthorityTx(
-      wallet,
-      slabKeypair.publicKey,
-      wallet.publicKey,
-    );
-    const oracleResult = await client.sendTransaction(wallet, setOracleTx);
-    if (oracleResult.error) {
-      console.warn(`[Percolator] SetOracleAuthority warning: ${oracleResult.error}`);
-    } else {
-      console.log(`[Percolator] ✅ Oracle authority set: ${oracleResult.signature}`);
-    }
+  // Oracle authority to the creator wallet, then the initial price
+  const setOracleTx = await client.buildSetOracleAuthorityTx(
+    wallet,
+    slabKeypair.publicKey,
+    wallet.publicKey,
+  );
+  const pushPriceTx = await client.buildPushOraclePriceTx(
+    wallet,
+    slabKeypair.publicKey,
+    initialPriceE6,
+    BigInt(Math.floor(Date.now() / 1000)),
+  );
 
-    // ---------------------------------------------------------------
-    // Step 5: Push initial oracle price
-    // ---------------------------------------------------------------
-    const timestamp = BigInt(Math.floor(Date.now() / 1000));
-    const pushPriceTx = await client.buildPushOraclePriceTx(
-      wallet,
-      slabKeypair.publicKey,
-      initialPriceE6,
-      timestamp,
-    );
-    const priceResult = await client.sendTransaction(wallet, pushPriceTx);
-    if (priceResult.error) {
-      console.warn(`[Percolator] PushOraclePrice warning: ${priceResult.error}`);
-    } else {
-      console.log(`[Percolator] ✅ Initial price pushed: ${priceResult.signature}`);
-    }
+  // Matcher context account, then InitLP with the passive matcher
+  const createMatcherCtxTx = new Transaction().add(
+    SystemProgram.createAccount({
+      fromPubkey: wallet.publicKey,
+      newAccountPubkey: matcherCtxKeypair.publicKey,
+      lamports: matcherCtxRent,
+      space: MATCHER_CTX_SIZE,
+      programId: matcherProgramId,
+    })
+  );
+  const initLpTx = await client.buildInitLpTx(
+    wallet,
+    slabKeypair.publicKey,
+    collateralMint,
+    vaultAta,
+    matcherProgramId,
+    matcherCtxKeypair.publicKey,
+  );
 
-    // ---------------------------------------------------------------
-    // Step 6: Create matcher context account
-    // ---------------------------------------------------------------
-    const matcherCtxKeypair = Keypair.generate();
-    const matcherCtxSize = 128;
-    const matcherCtxRent = await connection.getMinimumBalanceForRentExemption(matcherCtxSize);
-
-    const createMatcherCtxTx = new Transaction().add(
-      SystemProgram.createAccount({
-        fromPubkey: wallet.publicKey,
-        newAccountPubkey: matcherCtxKeypair.publicKey,
-        lamports: matcherCtxRent,
-        space: matcherCtxSize,
-        programId: matcherProgramId,
-      })
-    );
-    const bh3 = await connection.getLatestBlockhash('confirmed');
-    createMatcherCtxTx.recentBlockhash = bh3.blockhash;
-    createMatcherCtxTx.feePayer = wallet.publicKey;
-    createMatcherCtxTx.partialSign(matcherCtxKeypair);
-    const signedMatcherCtx = await wallet.signTransaction(createMatcherCtxTx);
-    const sig3 = await connection.sendRawTransaction(signedMatcherCtx.serialize());
-    await connection.confirmTransaction(
-      { signature: sig3, blockhash: bh3.blockhash, lastValidBlockHeight: bh3.lastValidBlockHeight },
-      'confirmed'
-    );
-    console.log(`[Percolator] ✅ Matcher context created: ${matcherCtxKeypair.publicKey.toBase58()}`);
-
-    // ---------------------------------------------------------------
-    // Step 7: InitLP with passive matcher
-    // ---------------------------------------------------------------
-    const initLpTx = await client.buildInitLpTx(
-      wallet,
-      slabKeypair.publicKey,
-      collateralMint,
-      vaultAta,
-      matcherProgramId,
-      matcherCtxKeypair.publicKey,
-    );
-    const lpResult = await client.sendTransaction(wallet, initLpTx);
-    if (lpResult.error) {
-      console.warn(`[Percolator] InitLP warning: ${lpResult.error}`);
-    } else {
-      console.log(`[Percolator] ✅ LP initialized: ${lpResult.signature}`);
+  // Lookup table over the market's accounts, so composite trades fit in one
+  // v0 transaction. The LP created above takes the first slot, index 0.
+  const recentSlot = await connection.getSlot('finalized');
+  const createTable = buildCreateLookupTableIx(wallet.publicKey, wallet.publicKey, recentSlot);
+  const tableAddresses = marketLookupAddresses(programId, slabKeypair.publicKey, {
+    vaultPubkey: vaultAta,
+    collateralMint,
+    indexFeedId: PublicKey.default,   // Hyperp
+  }, [{ idx: 0, matcherProgram: matcherProgramId, matcherContext: matcherCtxKeypair.publicKey }]);
+  const extendTableIxs = buildExtendLookupTableIxs(
+    createTable.lookupTable, wallet.publicKey, wallet.publicKey, tableAddresses,
+  );
+
+  const steps: MarketCreationStep[] = [
+    { label: 'CreateSlab', tx: createSlabTx, signers: [slabKeypair], required: true },
+    { label: 'CreateVault', tx: createVaultTx, signers: [], required: true },
+    { label: 'InitMarket', tx: initMarketTx, signers: [], required: true },
+    { label: 'SetOracleAuthority', tx: setOracleTx, signers: [], required: false },
+    { label: 'PushOraclePrice', tx: pushPriceTx, signers: [], required: false },
+    { label: 'CreateMatcherContext', tx: createMatcherCtxTx, signers: [matcherCtxKeypair], required: true },
+    { label: 'InitLP', tx: initLpTx, signers: [], required: false },
+    { label: 'CreateLookupTable', tx: new Transaction().add(createTable.instruction), signers: [], required: false },
+    ...extendTableIxs.map(ix => ({
+      label: 'ExtendLookupTable', tx: new Transaction().add(ix), signers: [], required: false,
+    })),
+  ];
+
+  const blockhash = await connection.getLatestBlockhash('confirmed');
+  for (const step of steps) {
+    prepareStep(step, wallet.publicKey, blockhash.blockhash);
+  }
+
+  return {
+    slab: slabKeypair.publicKey,
+    vault: vaultAta,
+    matcherContext: matcherCtxKeypair.publicKey,
+    lookupTable: createTable.lookupTable,
+    blockhash,
+    steps,
+  };
+}
+
+// Set blockhash and fee payer, then co-sign with the step's new accounts
+function prepareStep(step: MarketCreationStep, payer: PublicKey, blockhash: string): void {
+  step.tx.recentBlockhash = blockhash;
+  step.tx.feePayer = payer;
+  if (step.signers.length > 0) step.tx.partialSign(...step.signers);
+}
+
+/**
+ * Plan, sign and send the market creation transactions in order. Wallets
+ * with signAllTransactions approve once; a step whose batch blockhash
+ * expired before it was sent is re-signed on its own. Other wallets sign
+ * step by step. A failed lookup table step skips the rest of the table and
+ * is reported in lookupTableError rather than failing the market.
+ */
+export async function createPercolatorMarket(
+  wallet: WalletAdapter,
+  connection: Connection,
+  initialPriceE6: bigint,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL,
+  onEvent?: TxLifecycleHandler,
+): Promise<MarketCreationResult> {
+  try {
+    const plan = await planPercolatorMarket(wallet, connection, initialPriceE6, feeLevel);
+    const batch = wallet.signAllTransactions
+      ? await wallet.signAllTransactions(plan.steps.map(s => s.tx))
+      : null;
+
+    let lookupTableError: string | undefined;
+    for (const [i, step] of plan.steps.entries()) {
+      if (lookupTableError && isLookupTableStep(step)) continue;
+
+      const { signature, failure } = await sendWithRetry(connection, async blockhash => {
+        if (batch && blockhash === plan.blockhash.blockhash) return batch[i];
+        prepareStep(step, wallet.publicKey, blockhash);
+        return wallet.signTransaction(step.tx);
+      }, {
+        blockhash: batch ? plan.blockhash : undefined,
+        resign: batch ? 1 : 0,
+        onEvent,
+      });
+
+      if (!failure) {
+        console.log(`[Percolator] ✅ ${step.label}: ${signature}`);
+      } else if (step.required) {
+        return { success: false, error: `${step.label} failed: ${failure.message}` };
+      } else if (isLookupTableStep(step)) {
+        lookupTableError = `${step.label} failed: ${failure.message}`;
+        console.warn(`[Percolator] ${lookupTableError}`);
+      } else {
+        console.warn(`[Percolator] ${step.label} warning: ${failure.message}`);
+      }
     }
 
     return {
       success: true,
-      slabAddress: slabKeypair.publicKey.toBase58(),
+      slabAddress: plan.slab.toBase58(),
+      lookupTable: lookupTableError ? undefined : plan.lookupTable.toBase58(),
+      lookupTableError,
     };
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : String(error) };
@@ -466,14 +535,58 @@ export async function getImageFromMetadata(metadataUri: string): Promise<string
 // Pump.fun Buy/Sell (via PumpPortal API)
 // ============================================================================
 
+// Sign and send a PumpPortal trade against our own blockhash, so the sender
+// knows the expiry window it rebroadcasts within
+async function sendPumpPortalTx(
+  wallet: WalletAdapter,
+  connection: Connection,
+  tx: VersionedTransaction,
+  onEvent?: TxLifecycleHandler,
+): Promise<TradeResult> {
+  const { signature, failure } = await sendWithRetry(connection, async blockhash => {
+    tx.message.recentBlockhash = blockhash;
+    return wallet.signTransaction(tx);
+  }, { onEvent });
+  if (failure) {
+    return { success: false, error: failure.message, hint: failure.hint };
+  }
+  return { success: true, signature };
+}
+
+// Bonding curve PDA: the account every buy/sell on the token write-locks
+function deriveBondingCurve(tokenMint: string): PublicKey {
+  const [pda] = PublicKey.findProgramAddressSync(
+    [Buffer.from('bonding-curve'), new PublicKey(tokenMint).toBuffer()],
+    PUMP_FUN_PROGRAM_ID,
+  );
+  return pda;
+}
+
+// PumpPortal's priorityFee in SOL: the recent-fee estimate over its CU budget,
+// never below PUMP_MIN_PRIORITY_FEE_SOL
+async function pumpPortalPriorityFee(
+  connection: Connection,
+  writableAccounts: PublicKey[],
+  computeUnits: number,
+  feeLevel: FeeLevel,
+): Promise<number> {
+  const estimate = await estimatePriorityFeeSol(connection, writableAccounts, computeUnits, feeLevel);
+  return Math.max(estimate, PUMP_MIN_PRIORITY_FEE_SOL);
+}
+
 export async function buyTokenOnPumpFun(
   wallet: WalletAdapter,
   connection: Connection,
   tokenMint: string,
   amountSol: number,
   slippage: number = 10,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL,
+  onEvent?: TxLifecycleHandler,
 ): Promise<TradeResult> {
   try {
+    const priorityFee = await pumpPortalPriorityFee(
+      connection, [deriveBondingCurve(tokenMint)], PUMP_TRADE_COMPUTE_UNITS, feeLevel,
+    );
     const response = await fetch(`${PUMP_PORTAL_API}/trade-local`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -484,7 +597,7 @@ export async function buyTokenOnPumpFun(
         denominatedInSol: 'true',
         amount: amountSol,
         slippage,
-        priorityFee: 0.0005,
+        priorityFee,
         pool: 'pump',
       }),
     });
@@ -496,23 +609,10 @@ export async function buyTokenOnPumpFun(
 
     const txData = await response.arrayBuffer();
     const tx = VersionedTransaction.deserialize(new Uint8Array(txData));
-    const signed = await wallet.signTransaction(tx);
-    const rawTx = signed.serialize();
-    
-    const signature = await connection.sendRawTransaction(rawTx, {
-      skipPreflight: false,
-      preflightCommitment: 'confirmed',
-    });
-
-    const latestBlockhash = await connection.getLatestBlockhash('confirmed');
-    await connection.confirmTransaction(
-      { signature, blockhash: latestBlockhash.blockhash, lastValidBlockHeight: latestBlockhash.lastValidBlockHeight },
-      'confirmed'
-    );
-
-    return { success: true, signature };
+    return sendPumpPortalTx(wallet, connection, tx, onEvent);
   } catch (error) {
-    return { success: false, error: error instanceof Error ? error.message : String(error) };
+    const failure = classifyTxError(error);
+    return { success: false, error: failure.message, hint: failure.hint };
   }
 }
 
@@ -522,8 +622,13 @@ export async function sellTokenOnPumpFun(
   tokenMint: string,
   tokenAmount: string,
   slippage: number = 10,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL,
+  onEvent?: TxLifecycleHandler,
 ): Promise<TradeResult> {
   try {
+    const priorityFee = await pumpPortalPriorityFee(
+      connection, [deriveBondingCurve(tokenMint)], PUMP_TRADE_COMPUTE_UNITS, feeLevel,
+    );
     const response = await fetch(`${PUMP_PORTAL_API}/trade-local`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -534,7 +639,7 @@ export async function sellTokenOnPumpFun(
         denominatedInSol: 'false',
         amount: tokenAmount,
         slippage,
-        priorityFee: 0.0005,
+        priorityFee,
         pool: 'pump',
       }),
     });
@@ -546,23 +651,10 @@ export async function sellTokenOnPumpFun(
 
     const txData = await response.arrayBuffer();
     const tx = VersionedTransaction.deserialize(new Uint8Array(txData));
-    const signed = await wallet.signTransaction(tx);
-    const rawTx = signed.serialize();
-    
-    const signature = await connection.sendRawTransaction(rawTx, {
-      skipPreflight: false,
-      preflightCommitment: 'confirmed',
-    });
-
-    const latestBlockhash = await connection.getLatestBlockhash('confirmed');
-    await connection.confirmTransaction(
-      { signature, blockhash: latestBlockhash.blockhash, lastValidBlockHeight: latestBlockhash.lastValidBlockHeight },
-      'confirmed'
-    );
-
-    return { success: true, signature };
+    return sendPumpPortalTx(wallet, connection, tx, onEvent);
   } catch (error) {
-    return { success: false, error: error instanceof Error ? error.message : String(error) };
+    const failure = classifyTxError(error);
+    return { success: false, error: failure.message, hint: failure.hint };
   }
 }
 
@@ -644,6 +736,8 @@ export async function launchTokenWithPercolator(
     ...tokenResult,
     percolatorMarketCreated: true,
     percolatorSlabAddress: percolatorResult.slabAddress,
+    percolatorLookupTable: percolatorResult.lookupTable,
+    percolatorLookupTableError: percolatorResult.lookupTableError,
   };
 }
 
@@ -655,7 +749,7 @@ export async function enableFuturesForToken(
   wallet: WalletAdapter,
   connection: Connection,
   tokenMint: string,
-): Promise<{ success: boolean; slabAddress?: string; error?: string }> {
+): Promise<MarketCreationResult> {
   // Get current price
   let initialPriceE6 = 1_000n;
   try {
@@ -3,7 +3,12 @@
  */
 import { Connection, PublicKey } from '@solana/web3.js';
 import { PercolatorClient, MAINNET_CONFIG } from './percolator/client';
-import type { WalletAdapter, TxResult, MarketInfo, PositionInfo } from './percolator/client';
+import type { WalletAdapter, TxResult, SimulationResult, MarketInfo, PositionInfo, OwnedAccount } from './percolator/client';
+import { subscribeSlab as subscribeSlabOn } from './percolator/subscribe';
+import { invalidateSlab } from './percolator/cache';
+import type { SlabUpdate, SlabUpdateHandler } from './percolator/subscribe';
+import type { FeeLevel } from './percolator/fees';
+import type { TxLifecycleEvent } from './percolator/sender';
 
 // ============================================================================
 // Connection
@@ -24,17 +29,73 @@ export function getConnection(): Connection {
 // Percolator Client Factory (per-slab)
 // ============================================================================
 
-export function getPercolatorClient(slabPubkey: PublicKey): PercolatorClient {
+// Lookup table per slab, from the token registry (tables cannot be found on-chain)
+const lookupTables = new Map<string, PublicKey>();
+
+export function setMarketLookupTable(slabPubkey: PublicKey, lookupTable: PublicKey): void {
+  lookupTables.set(slabPubkey.toBase58(), lookupTable);
+}
+
+export function getPercolatorClient(slabPubkey: PublicKey, feeLevel?: FeeLevel): PercolatorClient {
   return new PercolatorClient({
     programId: MAINNET_CONFIG.programId,
     slabPubkey,
     connection: getConnection(),
+    feeLevel,
+    lookupTable: lookupTables.get(slabPubkey.toBase58()),
   });
 }
 
 // Re-export mainnet config & types
-export { MAINNET_CONFIG } from './percolator/client';
-export type { WalletAdapter, TxResult, MarketInfo, PositionInfo };
+export { MAINNET_CONFIG, ownedAccounts } from './percolator/client';
+export { classifyTxError } from './percolator/abi/errors';
+export { FEE_POLICIES, DEFAULT_FEE_LEVEL } from './percolator/fees';
+export { TX_STAGE_LABELS } from './percolator/sender';
+export type { WalletAdapter, TxResult, SimulationResult, MarketInfo, PositionInfo, OwnedAccount, SlabUpdate,
+              FeeLevel, TxLifecycleEvent };
+
+// ============================================================================
+// Live slab updates (websocket on the shared connection)
+// ============================================================================
+
+// One websocket subscription per slab, shared by every handler on it
+const slabSubscriptions = new Map<string, {
+  handlers: Set<SlabUpdateHandler>;
+  unsubscribe: () => Promise<void>;
+}>();
+
+/**
+ * Listen for pushes to a slab. Handlers on the same slab share one
+ * subscription, so each push is parsed once; it closes when the last
+ * handler unsubscribes. Cached reads of the slab are dropped before the
+ * handlers run, since a push means the slab was written.
+ */
+export function subscribeSlab(slabPubkey: PublicKey, handler: SlabUpdateHandler): () => Promise<void> {
+  const key = slabPubkey.toBase58();
+  let shared = slabSubscriptions.get(key);
+  if (!shared) {
+    const handlers = new Set<SlabUpdateHandler>();
+    const unsubscribe = subscribeSlabOn(getConnection(), slabPubkey, update => {
+      invalidateSlab(slabPubkey);
+      for (const h of handlers) h(update);
+    }, {
+      onError: e => console.warn(`Could not parse slab ${key} update:`, e),
+    });
+    shared = { handlers, unsubscribe };
+    slabSubscriptions.set(key, shared);
+  }
+
+  // Wrapped so the same handler can be registered twice and removed once each
+  const subscription = shared;
+  const listener: SlabUpdateHandler = update => handler(update);
+  subscription.handlers.add(listener);
+
+  return async () => {
+    if (!subscription.handlers.delete(listener) || subscription.handlers.size > 0) return;
+    slabSubscriptions.delete(key);
+    await subscription.unsubscribe();
+  };
+}
 
 // ============================================================================
 // Token balance helper
@@ -23,6 +23,7 @@ CREATE TABLE IF NOT EXISTS tokens (
   image_url   TEXT,                       -- token image URL (IPFS / Pump.fun)
   percolator_slab TEXT,                   -- slab address if futures enabled
   matcher_ctx TEXT,
+  lookup_table TEXT,                      -- the slab's address lookup table, if created
   creator     TEXT NOT NULL,              -- wallet pubkey
   inserted_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -32,6 +33,9 @@ CREATE INDEX IF NOT EXISTS idx_tokens_mint ON tokens(mint);
 CREATE INDEX IF NOT EXISTS idx_tokens_creator ON tokens(creator);
 CREATE INDEX IF NOT EXISTS idx_tokens_percolator ON tokens(percolator_slab) WHERE percolator_slab IS NOT NULL;
 
+-- Existing databases: add the lookup table column
+ALTER TABLE tokens ADD COLUMN IF NOT EXISTS lookup_table TEXT;
+
 -- Fundraises table
 CREATE TABLE IF NOT EXISTS fundraises (
   id          BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
@@ -19,6 +19,7 @@ export interface LaunchedToken {
   imageUrl?: string // token image URL (from IPFS / Pump.fun)
   percolatorSlab?: string // slab address if percolator market was created
   matcherCtx?: string     // matcher context address
+  lookupTable?: string    // the slab's address lookup table, if created
   creator: string // wallet pubkey
 }
 
@@ -56,6 +57,7 @@ function rowToToken(row: any): LaunchedToken {
     imageUrl: row.image_url ?? undefined,
     percolatorSlab: row.percolator_slab ?? undefined,
     matcherCtx: row.matcher_ctx ?? undefined,
+    lookupTable: row.lookup_table ?? undefined,
     creator: row.creator,
   }
 }
@@ -93,6 +95,7 @@ export async function saveToken(token: LaunchedToken): Promise<void> {
         image_url: token.imageUrl ?? null,
         percolator_slab: token.percolatorSlab ?? null,
         matcher_ctx: token.matcherCtx ?? null,
+        lookup_table: token.lookupTable ?? null,
         creator: token.creator,
       },
       { onConflict: 'mint' }
@@ -128,6 +131,21 @@ export async function updateTokenSlab(mint: string, slabAddress: string): Promis
   }
 }
 
+/**
+ * Record the slab's address lookup table once it is created. Its address
+ * derives from a recent slot, so this is the only place it can be found again.
+ */
+export async function updateTokenLookupTable(mint: string, lookupTable: string): Promise<void> {
+  const { error } = await supabase
+    .from('tokens')
+    .update({ lookup_table: lookupTable })
+    .eq('mint', mint)
+
+  if (error) {
+    console.error('updateTokenLookupTable error:', error)
+  }
+}
+
 // ============================================================================
 // Community Fundraise
 // ============================================================================
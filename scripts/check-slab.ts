@@ -0,0 +1,69 @@
+/**
+ * Check a live slab's invariants from the command line.
+ *
+ *   npm run check-slab -- <slab-address> [rpc-url]
+ *
+ * The RPC URL defaults to NEXT_PUBLIC_RPC_URL, then mainnet-beta. Prints
+ * every violation and exits 1 when there are any, 2 on bad usage or a
+ * failed fetch, so it can gate a deploy or run from cron after upgrades.
+ */
+import { Connection, PublicKey } from '@solana/web3.js';
+
+import { fetchSlabUsed } from '../lib/percolator/solana/slab';
+import { checkSlabInvariants } from '../lib/percolator/invariants';
+
+const USAGE = 'Usage: npm run check-slab -- <slab-address> [rpc-url]';
+
+async function main(): Promise<number> {
+  const [slabArg, rpcArg] = process.argv.slice(2);
+  if (!slabArg) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  let slab: PublicKey;
+  try {
+    slab = new PublicKey(slabArg);
+  } catch {
+    console.error(`Invalid slab address: ${slabArg}\n${USAGE}`);
+    return 2;
+  }
+
+  const rpcUrl = rpcArg || process.env.NEXT_PUBLIC_RPC_URL || 'https://api.mainnet-beta.solana.com';
+  const connection = new Connection(rpcUrl, 'confirmed');
+
+  let data: Buffer;
+  try {
+    data = await fetchSlabUsed(connection, slab);
+  } catch (e) {
+    console.error(`Failed to fetch ${slab.toBase58()} from ${rpcUrl}: ${e instanceof Error ? e.message : String(e)}`);
+    return 2;
+  }
+
+  const report = checkSlabInvariants(data);
+  console.log(`Slab ${slab.toBase58()}`);
+  console.log(`  layout v${report.layoutVersion ?? '?'}, ${report.usedAccounts} used accounts`);
+  console.log(`  checked: ${report.checked.join(', ')}`);
+
+  if (report.ok) {
+    console.log('OK — no violations');
+    return 0;
+  }
+
+  console.log(`${report.violations.length} violation(s):`);
+  for (const v of report.violations) {
+    const values = v.expected !== undefined || v.actual !== undefined
+      ? ` (expected ${v.expected ?? '?'}, actual ${v.actual ?? '?'})`
+      : '';
+    console.log(`  [${v.invariant}] ${v.message}${values}`);
+  }
+  return 1;
+}
+
+main().then(
+  code => process.exit(code),
+  e => {
+    console.error(e);
+    process.exit(2);
+  },
+);